@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+  type AAMVAData,
+  AAMVA_PDF417_OPTIONS,
+  buildAAMVA,
+  parseAAMVA,
+} from "./aamva";
+import { PDF417 } from "./pdf417";
+
+const license: AAMVAData = {
+  iin: "636000",
+  subfiles: [
+    {
+      type: "DL",
+      elements: {
+        DAQ: "T64235789",
+        DCA: "D",
+        DCB: "NONE",
+        DCD: "NONE",
+        DBA: "08142030",
+        DCS: "SAMPLE",
+        DAC: "MICHAEL",
+        DAD: "JOHN",
+        DBD: "08142022",
+        DBB: "08141990",
+        DBC: "1",
+        DAY: "BRO",
+        DAU: "070 in",
+        DAG: "2300 WEST BROAD STREET",
+        DAI: "RICHMOND",
+        DAJ: "VA",
+        DAK: "232690000  ",
+        DCF: "2424244747474786102204",
+        DCG: "USA",
+        DDE: "N",
+        DDF: "N",
+        DDG: "N",
+      },
+    },
+    { type: "ZV", elements: { ZVA: "01" } },
+  ],
+};
+
+describe("AAMVA DL/ID payloads", () => {
+  it("should write the header and the subfile designators", () => {
+    const payload = buildAAMVA(license);
+    expect(payload.slice(0, 41)).toBe(
+      "@\n\x1e\rANSI 636000100002DL00410230ZV02710008",
+    );
+    expect(payload.slice(41, 52)).toBe("DLDAQT64235");
+    expect(payload.slice(271)).toBe("ZVZVA01\r");
+    expect(payload).toHaveLength(279);
+  });
+
+  it("should read a payload back", () => {
+    const data = parseAAMVA(buildAAMVA({ ...license, jurisdictionVersion: 3 }));
+    expect(data).toEqual({
+      ...license,
+      version: 10,
+      jurisdictionVersion: 3,
+    });
+    expect(parseAAMVA("ANSI 636000100002")).toBeNull();
+    // the designator points past the subfile
+    expect(
+      parseAAMVA("@\n\x1e\rANSI 636000100001DL00400007DLDAQ1\r"),
+    ).toBeNull();
+  });
+
+  it("should reject invalid fields", () => {
+    expect(() => buildAAMVA({ ...license, iin: "63600" })).toThrow(
+      "AAMVA Error: the IIN must be 6 digits.",
+    );
+    expect(() =>
+      buildAAMVA({
+        iin: "636000",
+        subfiles: [{ type: "ID", elements: { DAQ: "1" } }],
+      }),
+    ).toThrow("AAMVA Error: ID subfile without DBA.");
+    expect(() =>
+      buildAAMVA({
+        iin: "636000",
+        subfiles: [{ type: "ZV", elements: { ZVA: "A\nB" } }],
+      }),
+    ).toThrow("AAMVA Error: invalid character in ZVA.");
+  });
+
+  it("should only write the versions it has the mandatory elements of", () => {
+    expect(buildAAMVA({ ...license, version: 8 }).slice(15, 17)).toBe("08");
+    // version 02 had DCT for the given names instead of DAC and DAD
+    expect(() => buildAAMVA({ ...license, version: 2 })).toThrow(
+      "AAMVA Error: version 2 isn't supported, only 08 to 10 are.",
+    );
+    expect(() => buildAAMVA({ ...license, version: 11 })).toThrow(
+      "AAMVA Error: version 11 isn't supported, only 08 to 10 are.",
+    );
+    // earlier versions are still read
+    const payload = buildAAMVA(license).replace(
+      "ANSI 63600010",
+      "ANSI 63600002",
+    );
+    expect(parseAAMVA(payload)?.version).toBe(2);
+  });
+
+  it("should encode with the recommended options", () => {
+    expect(() =>
+      new PDF417(AAMVA_PDF417_OPTIONS).generate(buildAAMVA(license)),
+    ).not.toThrow();
+  });
+
+  it("should keep to 20 data columns even for a wide symbol", () => {
+    expect(AAMVA_PDF417_OPTIONS.maxColumns).toBe(20);
+    const payload = buildAAMVA(license);
+    const wide = { ...AAMVA_PDF417_OPTIONS, aspectRatio: 20 };
+    const result = new PDF417(wide).generate(payload);
+    // quiet zones, start pattern, row indicators and stop pattern around the data
+    expect((result.num_cols - 2 * 2 - 17 - 2 * 17 - 18) / 17).toBe(20);
+    const { maxColumns, ...unbounded } = wide;
+    expect(new PDF417(unbounded).generate(payload).num_cols).toBeGreaterThan(
+      result.num_cols,
+    );
+  });
+});
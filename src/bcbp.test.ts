@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  type BCBPData,
+  type BCBPLeg,
+  BCBP_PDF417_OPTIONS,
+  buildBCBP,
+  parseBCBP,
+} from "./bcbp";
+import { PDF417 } from "./pdf417";
+
+const leg: BCBPLeg = {
+  pnr: "ABC123",
+  from: "YUL",
+  to: "FRA",
+  carrier: "AC",
+  flightNumber: "834",
+  date: 326,
+  compartment: "J",
+  seat: "1A",
+  sequence: "25",
+  status: "1",
+};
+
+describe("IATA BCBP", () => {
+  it("should pad the mandatory items", () => {
+    expect(buildBCBP({ name: "DESMARAIS/LUC", legs: [leg] })).toBe(
+      "M1DESMARAIS/LUC       EABC123 YULFRAAC 0834 326J001A0025 100",
+    );
+  });
+
+  it("should write the conditional items and the security data", () => {
+    const data: BCBPData = {
+      name: "DESMARAIS/LUC",
+      legs: [
+        {
+          ...leg,
+          airlineNumericCode: "014",
+          documentNumber: "1234567890",
+          airlineData: "LX58Z",
+        },
+        {
+          ...leg,
+          pnr: "DEF456",
+          from: "FRA",
+          to: "GVA",
+          carrier: "LH",
+          flightNumber: "3664",
+          freeBaggageAllowance: "2PC",
+        },
+      ],
+      documentType: "B",
+      boardingPassIssuer: "AC",
+      security: { type: "1", data: "GIWVC5EH7JNT684FVNJ91W2QA4DVN5J8K4F0L0GE" },
+    };
+    const text = buildBCBP(data);
+    expect(text.slice(58, 95)).toBe("23>60B       BAC 0D0141234567890LX58Z");
+    // the items of the second leg up to the free baggage allowance
+    expect(text.slice(130, -44)).toBe(`2B29${" ".repeat(38)}2PC`);
+    expect(text.slice(-44)).toBe(
+      "^128GIWVC5EH7JNT684FVNJ91W2QA4DVN5J8K4F0L0GE",
+    );
+    expect(parseBCBP(text)).toEqual({
+      ...data,
+      electronicTicket: true,
+      version: 6,
+      legs: [
+        {
+          ...data.legs[0],
+          flightNumber: "0834",
+          seat: "001A",
+          sequence: "0025",
+        },
+        { ...data.legs[1], seat: "001A", sequence: "0025" },
+      ],
+    });
+  });
+
+  it("should reject fields that don't fit", () => {
+    expect(() =>
+      buildBCBP({ name: "DESMARAIS/LUC", legs: [{ ...leg, pnr: "ABCD1234" }] }),
+    ).toThrow("BCBP Error: pnr is longer than 7 characters.");
+    expect(() =>
+      buildBCBP({ name: "DESMARAIS/LUC", legs: [{ ...leg, date: 367 }] }),
+    ).toThrow("BCBP Error: the date must be a day of the year (1-366).");
+    expect(() => buildBCBP({ name: "DESMARAIS/LUC", legs: [] })).toThrow(
+      "BCBP Error: there must be 1 to 4 legs.",
+    );
+    expect(parseBCBP("M1DESMARAIS/LUC       EABC123 YULFRAAC 0834")).toBeNull();
+    expect(
+      parseBCBP("M1DESMARAIS/LUC       EABC123 YULFRAAC 0834 326J001A0025 105"),
+    ).toBeNull();
+  });
+
+  it("should encode with the recommended options", () => {
+    expect(() =>
+      new PDF417(BCBP_PDF417_OPTIONS).generate(
+        buildBCBP({ name: "DESMARAIS/LUC", legs: [leg] }),
+      ),
+    ).not.toThrow();
+  });
+});
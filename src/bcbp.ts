@@ -0,0 +1,327 @@
+/**
+ * IATA Bar Coded Boarding Pass (BCBP, Resolution 792), M format
+ *
+ * Fixed-width fields: the mandatory items of the passenger and of every leg,
+ * then for each leg a variable size field (its size in 2 hex digits) with the
+ * conditional items and the data for individual airline use, and finally
+ * the security data. Conditional items come in structured messages that
+ * may be cut short after any item.
+ */
+import type { PDF417Options } from "./pdf417";
+
+/** One flight of the boarding pass */
+export interface BCBPLeg {
+  /** Operating carrier PNR code (up to 7 characters) */
+  pnr: string;
+  /** From city airport code */
+  from: string;
+  /** To city airport code */
+  to: string;
+  /** Operating carrier designator */
+  carrier: string;
+  /** Flight number: "834" and "834A" are written "0834 " and "0834A" */
+  flightNumber: string;
+  /** Date of flight, day of the year (1-366) */
+  date: number;
+  /** Compartment code, such as "Y" */
+  compartment: string;
+  /** Seat number: "1A" is written "001A" */
+  seat: string;
+  /** Check-in sequence number: "25" is written "0025 " */
+  sequence: string;
+  /** Passenger status */
+  status: string;
+  /** Airline numeric code */
+  airlineNumericCode?: string;
+  /** Document form/serial number */
+  documentNumber?: string;
+  /** Selectee indicator */
+  selectee?: string;
+  /** International documentation verification */
+  documentVerification?: string;
+  /** Marketing carrier designator */
+  marketingCarrier?: string;
+  /** Frequent flyer airline designator */
+  frequentFlyerAirline?: string;
+  /** Frequent flyer number */
+  frequentFlyerNumber?: string;
+  /** ID/AD indicator */
+  idAdIndicator?: string;
+  /** Free baggage allowance, such as "20K" */
+  freeBaggageAllowance?: string;
+  /** Fast track */
+  fastTrack?: string;
+  /** Data for individual airline use, after the conditional items */
+  airlineData?: string;
+}
+
+/** Contents of a boarding pass */
+export interface BCBPData {
+  /** Passenger name, "FAMILY/GIVEN" (up to 20 characters) */
+  name: string;
+  /** Electronic ticket indicator; default true */
+  electronicTicket?: boolean;
+  /** 1 to 4 legs */
+  legs: BCBPLeg[];
+  /** Version number of the conditional items (1-9); default 6 */
+  version?: number;
+  /** Passenger description */
+  passengerDescription?: string;
+  /** Source of check-in */
+  checkInSource?: string;
+  /** Source of boarding pass issuance */
+  boardingPassSource?: string;
+  /** Date of issue of boarding pass: last digit of the year and day of the year */
+  issueDate?: string;
+  /** Document type: "B" boarding pass, "I" itinerary receipt */
+  documentType?: string;
+  /** Airline designator of the boarding pass issuer */
+  boardingPassIssuer?: string;
+  /** Baggage tag licence plate number(s) */
+  baggageTag?: string;
+  /** 1st non-consecutive baggage tag licence plate number */
+  baggageTag2?: string;
+  /** 2nd non-consecutive baggage tag licence plate number */
+  baggageTag3?: string;
+  /** Security data, with its type */
+  security?: { type: string; data: string };
+}
+
+/** Symbol options IATA recommends for boarding passes: error correction level 5 */
+export const BCBP_PDF417_OPTIONS: PDF417Options = {
+  errorCorrectionLevel: 5,
+};
+
+type Fields<T> = [keyof T, number][];
+
+const FORMAT_CODE = "M";
+const VERSION_BEGINNING = ">";
+const SECURITY_BEGINNING = "^";
+const DEFAULT_VERSION = 6;
+const MAX_LEGS = 4;
+// format code, number of legs, name and electronic ticket indicator
+const UNIQUE_MANDATORY_LENGTH = 23;
+// mandatory items of a leg, up to the size of its variable size field
+const LEG_MANDATORY_LENGTH = 35;
+
+const UNIQUE_CONDITIONAL_FIELDS: Fields<BCBPData> = [
+  ["passengerDescription", 1],
+  ["checkInSource", 1],
+  ["boardingPassSource", 1],
+  ["issueDate", 4],
+  ["documentType", 1],
+  ["boardingPassIssuer", 3],
+  ["baggageTag", 13],
+  ["baggageTag2", 13],
+  ["baggageTag3", 13],
+];
+
+const REPEATED_CONDITIONAL_FIELDS: Fields<BCBPLeg> = [
+  ["airlineNumericCode", 3],
+  ["documentNumber", 10],
+  ["selectee", 1],
+  ["documentVerification", 1],
+  ["marketingCarrier", 3],
+  ["frequentFlyerAirline", 3],
+  ["frequentFlyerNumber", 16],
+  ["idAdIndicator", 1],
+  ["freeBaggageAllowance", 3],
+  ["fastTrack", 1],
+];
+
+/**
+ * Write the boarding pass data as an M format string, padding every field
+ * to its width. Throws if a field doesn't fit.
+ */
+export function buildBCBP(data: BCBPData): string {
+  const { legs } = data;
+  const version = data.version ?? DEFAULT_VERSION;
+  if (legs.length === 0 || legs.length > MAX_LEGS) {
+    throw new Error(`BCBP Error: there must be 1 to ${MAX_LEGS} legs.`);
+  }
+  if (!Number.isInteger(version) || version < 1 || version > 9) {
+    throw new Error("BCBP Error: invalid version number.");
+  }
+  let text =
+    FORMAT_CODE +
+    legs.length +
+    fit(data.name, 20, "name") +
+    (data.electronicTicket === false ? " " : "E");
+
+  const unique = writeFields(data, UNIQUE_CONDITIONAL_FIELDS);
+  legs.forEach((leg, i) => {
+    const repeated = writeFields(leg, REPEATED_CONDITIONAL_FIELDS);
+    const airlineData = leg.airlineData ?? "";
+    let variable = "";
+    if (i === 0 && (unique || repeated || airlineData)) {
+      variable =
+        VERSION_BEGINNING +
+        version +
+        toHex(unique.length) +
+        unique +
+        toHex(repeated.length) +
+        repeated +
+        airlineData;
+    } else if (i > 0 && (repeated || airlineData)) {
+      variable = toHex(repeated.length) + repeated + airlineData;
+    }
+    text +=
+      fit(leg.pnr, 7, "pnr") +
+      fit(leg.from, 3, "from") +
+      fit(leg.to, 3, "to") +
+      fit(leg.carrier, 3, "carrier") +
+      fit(pad(leg.flightNumber, 4, 1), 5, "flightNumber") +
+      fit(toDate(leg.date), 3, "date") +
+      fit(leg.compartment, 1, "compartment") +
+      fit(pad(leg.seat, 3, 1), 4, "seat") +
+      fit(pad(leg.sequence, 4, 1), 5, "sequence") +
+      fit(leg.status, 1, "status") +
+      toHex(checkText(variable, "airlineData").length) +
+      variable;
+  });
+
+  if (data.security) {
+    const { type, data: security } = data.security;
+    text +=
+      SECURITY_BEGINNING +
+      fit(type, 1, "security type") +
+      toHex(checkText(security, "security data").length) +
+      security;
+  }
+  return text;
+}
+
+/** Read an M format boarding pass back into its fields, or return null if it isn't one */
+export function parseBCBP(text: string): BCBPData | null {
+  const header = /^M([1-4])(.{20})([E ])/s.exec(text);
+  if (!header) return null;
+  const data: BCBPData = {
+    name: header[2].trimEnd(),
+    electronicTicket: header[3] === "E",
+    legs: [],
+  };
+  let position = UNIQUE_MANDATORY_LENGTH;
+  for (let i = 0; i < Number(header[1]); ++i) {
+    const mandatory = text.slice(position, position + LEG_MANDATORY_LENGTH);
+    const size = fromHex(
+      text.slice(
+        position + LEG_MANDATORY_LENGTH,
+        position + LEG_MANDATORY_LENGTH + 2,
+      ),
+    );
+    const date = mandatory.slice(21, 24);
+    if (size < 0 || !/^\d{3}$/.test(date)) return null;
+    const leg: BCBPLeg = {
+      pnr: mandatory.slice(0, 7).trimEnd(),
+      from: mandatory.slice(7, 10).trimEnd(),
+      to: mandatory.slice(10, 13).trimEnd(),
+      carrier: mandatory.slice(13, 16).trimEnd(),
+      flightNumber: mandatory.slice(16, 21).trimEnd(),
+      date: Number(date),
+      compartment: mandatory.slice(24, 25).trimEnd(),
+      seat: mandatory.slice(25, 29).trimEnd(),
+      sequence: mandatory.slice(29, 34).trimEnd(),
+      status: mandatory.slice(34, 35).trimEnd(),
+    };
+    position += LEG_MANDATORY_LENGTH + 2;
+    let variable = text.slice(position, position + size);
+    if (variable.length < size) return null;
+    position += size;
+
+    if (i === 0 && variable.startsWith(VERSION_BEGINNING)) {
+      data.version = Number(variable[1]);
+      const unique = readSection(variable.slice(2));
+      if (!unique) return null;
+      readFields(unique.section, UNIQUE_CONDITIONAL_FIELDS, data);
+      variable = unique.rest;
+    }
+    if (variable) {
+      const repeated = readSection(variable);
+      if (!repeated) return null;
+      readFields(repeated.section, REPEATED_CONDITIONAL_FIELDS, leg);
+      if (repeated.rest) leg.airlineData = repeated.rest;
+    }
+    data.legs.push(leg);
+  }
+
+  if (text[position] === SECURITY_BEGINNING) {
+    const size = fromHex(text.slice(position + 2, position + 4));
+    const security = text.slice(position + 4, position + 4 + size);
+    if (size < 0 || security.length < size) return null;
+    data.security = { type: text[position + 1], data: security };
+    position += 4 + size;
+  }
+  return position === text.length ? data : null;
+}
+
+/** The conditional items given, up to the last one */
+function writeFields<T>(record: T, fields: Fields<T>): string {
+  let text = "";
+  let end = 0;
+  for (const [key, size] of fields) {
+    const value = record[key] as string | undefined;
+    text += fit(value ?? "", size, String(key));
+    if (value !== undefined) end = text.length;
+  }
+  return text.slice(0, end);
+}
+
+/** Conditional items of a structured message that may have been cut short */
+function readFields<T>(text: string, fields: Fields<T>, record: T): void {
+  let position = 0;
+  for (const [key, size] of fields) {
+    const value = text.slice(position, position + size).trimEnd();
+    if (value) (record[key] as string) = value;
+    position += size;
+  }
+}
+
+/** A structured message after the size in 2 hex digits, and what follows it */
+function readSection(text: string): { section: string; rest: string } | null {
+  const size = fromHex(text.slice(0, 2));
+  if (size < 0 || text.length < 2 + size) return null;
+  return { section: text.slice(2, 2 + size), rest: text.slice(2 + size) };
+}
+
+/** The value, left-justified and padded with spaces to the width of its field */
+function fit(value: string, size: number, field: string): string {
+  if (checkText(value, field).length > size) {
+    throw new Error(`BCBP Error: ${field} is longer than ${size} characters.`);
+  }
+  return value.padEnd(size);
+}
+
+/** Printable ASCII only, so that characters and bytes count the same */
+function checkText(value: string, field: string): string {
+  if (!/^[\x20-\x7e]*$/.test(value)) {
+    throw new Error(`BCBP Error: invalid character in ${field}.`);
+  }
+  return value;
+}
+
+/** Leading zeros for the digits and a space for a missing letter: "25" becomes "0025 " */
+function pad(value: string, digits: number, letters: number): string {
+  const match = new RegExp(`^(\\d{1,${digits}})([A-Z]{0,${letters}})$`).exec(
+    value,
+  );
+  if (!match) return value;
+  return match[1].padStart(digits, "0") + match[2].padEnd(letters);
+}
+
+function toDate(day: number): string {
+  if (!Number.isInteger(day) || day < 1 || day > 366) {
+    throw new Error("BCBP Error: the date must be a day of the year (1-366).");
+  }
+  return String(day).padStart(3, "0");
+}
+
+function toHex(value: number): string {
+  if (value > 0xff) {
+    throw new Error("BCBP Error: a variable size field is too long.");
+  }
+  return value.toString(16).toUpperCase().padStart(2, "0");
+}
+
+function fromHex(text: string): number {
+  return /^[0-9A-Fa-f]{2}$/.test(text) ? Number.parseInt(text, 16) : -1;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  compressPayload,
+  decompressPayload,
+  isCompressedPayload,
+} from "./deflate";
+import { PDF417 } from "./pdf417";
+import { CapacityExceededError } from "./pdf417_errors";
+
+/** Bytes of a simple linear congruential generator, the same every run */
+function getNoise(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let seed = 42;
+  for (let i = 0; i < length; ++i) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    bytes[i] = seed >>> 24;
+  }
+  return bytes;
+}
+
+async function transform(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+  const response = new Response(new Blob([data]).stream().pipeThrough(stream));
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+const records = JSON.stringify(
+  Array.from({ length: 60 }, (_, i) => ({
+    id: i,
+    name: `Item ${i}`,
+    price: (i * 1.25).toFixed(2),
+    tags: ["stock", i % 2 ? "odd" : "even"],
+  })),
+);
+
+describe("Payload compression", () => {
+  it("should decompress what it compressed", () => {
+    const samples = [
+      new Uint8Array(0),
+      new TextEncoder().encode("a"),
+      new TextEncoder().encode(records),
+      getNoise(1000),
+      getNoise(70000), // more than one stored block
+      new Uint8Array(100000).fill(7),
+    ];
+    for (const sample of samples) {
+      const compressed = compressPayload(sample);
+      expect(isCompressedPayload(compressed)).toBe(true);
+      expect(decompressPayload(compressed)).toEqual(sample);
+    }
+    const compressed = compressPayload(records);
+    expect(compressed.length).toBeLessThan(records.length / 5);
+    // as a scanner returns the bytes
+    expect(decompressPayload(String.fromCharCode(...compressed))).toEqual(
+      new TextEncoder().encode(records),
+    );
+  });
+
+  it("should write zlib streams other readers inflate", async () => {
+    for (const sample of [new TextEncoder().encode(records), getNoise(300)]) {
+      const compressed = compressPayload(sample);
+      expect(Array.from(compressed.subarray(0, 2))).toEqual([0x1b, 0x5a]);
+      expect(
+        await transform(
+          compressed.subarray(2),
+          new DecompressionStream("deflate"),
+        ),
+      ).toEqual(sample);
+    }
+  });
+
+  it("should inflate zlib streams of other writers", async () => {
+    const sample = new TextEncoder().encode(records + records.toUpperCase());
+    const zlib = await transform(sample, new CompressionStream("deflate"));
+    const payload = new Uint8Array(zlib.length + 2);
+    payload.set([0x1b, 0x5a]);
+    payload.set(zlib, 2);
+    expect(decompressPayload(payload)).toEqual(sample);
+  });
+
+  it("should return null for other or damaged data", () => {
+    expect(decompressPayload("plain text")).toBeNull();
+    const compressed = compressPayload(records);
+    const damaged = compressed.slice();
+    damaged[20] ^= 0x10;
+    expect(decompressPayload(damaged)).toBeNull();
+    expect(decompressPayload(compressed.subarray(0, 30))).toBeNull();
+  });
+
+  it("should let large payloads fit in a single symbol", () => {
+    expect(() => new PDF417().generate(records)).toThrow(CapacityExceededError);
+    expect(() =>
+      new PDF417({ compress: "deflate" }).generate(records),
+    ).not.toThrow();
+  });
+});
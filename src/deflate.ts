@@ -0,0 +1,604 @@
+/**
+ * Payload compression
+ *
+ * A compressed payload is the marker ESC "Z" (0x1b 0x5a) followed by a zlib
+ * stream (RFC 1950: DEFLATE data of RFC 1951 with an Adler-32 checksum), so
+ * that readers without this library can strip the marker and inflate the rest
+ * with any zlib implementation, such as DecompressionStream("deflate").
+ */
+
+const MARKER = [0x1b, 0x5a];
+const ZLIB_HEADER = [0x78, 0x9c]; // DEFLATE, 32K window, default compression
+
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 128; // match candidates tried at each position
+const HASH_BITS = 15;
+const MAX_STORED = 65535;
+const END_OF_BLOCK = 256;
+
+// base value and extra bits of the length codes 257-285 and distance codes 0-29
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+];
+// order in which the code length code lengths are sent
+const CODE_LENGTH_ORDER = [
+  16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15,
+];
+const FIXED_LITERAL_LENGTHS = Array.from({ length: 288 }, (_, i) =>
+  i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8,
+);
+const FIXED_DISTANCE_LENGTHS: number[] = Array(30).fill(5);
+
+/** Literal (distance 0) or match of the LZ77 pass */
+interface Token {
+  value: number; // byte or match length
+  distance: number;
+}
+
+/** Canonical Huffman code for decoding: code count per length and symbols in code order */
+interface HuffmanTable {
+  count: number[];
+  symbol: number[];
+}
+
+/** Compress the data and put the marker in front of it */
+export function compressPayload(data: string | Uint8Array): Uint8Array {
+  const bytes =
+    typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const deflated = deflate(bytes);
+  const adler = getAdler32(bytes);
+  const payload = new Uint8Array(MARKER.length + 2 + deflated.length + 4);
+  payload.set([...MARKER, ...ZLIB_HEADER]);
+  payload.set(deflated, MARKER.length + 2);
+  payload.set(
+    [adler >>> 24, (adler >>> 16) & 0xff, (adler >>> 8) & 0xff, adler & 0xff],
+    payload.length - 4,
+  );
+  return payload;
+}
+
+/** The marker starts the data */
+export function isCompressedPayload(data: Uint8Array | string): boolean {
+  return MARKER.every((value, i) =>
+    typeof data === "string" ? data.charCodeAt(i) === value : data[i] === value,
+  );
+}
+
+/**
+ * Decompress a compressed payload, or return null if it isn't one or it is
+ * damaged. A string, as scanners return the bytes, must hold one byte per
+ * character.
+ */
+export function decompressPayload(
+  data: Uint8Array | string,
+): Uint8Array | null {
+  const bytes = typeof data === "string" ? toBytes(data) : data;
+  if (!bytes || !isCompressedPayload(bytes)) return null;
+  const cmf = bytes[2];
+  const flg = bytes[3];
+  // DEFLATE without a preset dictionary
+  if ((cmf & 0x0f) !== 8 || (cmf * 256 + flg) % 31 !== 0 || flg & 0x20) {
+    return null;
+  }
+  try {
+    const { output, end } = inflate(bytes, 4);
+    const adler =
+      ((bytes[end] << 24) |
+        (bytes[end + 1] << 16) |
+        (bytes[end + 2] << 8) |
+        bytes[end + 3]) >>>
+      0;
+    if (end + 4 !== bytes.length || adler !== getAdler32(output)) return null;
+    return output;
+  } catch {
+    return null;
+  }
+}
+
+function toBytes(data: string): Uint8Array | null {
+  const bytes = new Uint8Array(data.length);
+  for (let i = 0; i < data.length; ++i) {
+    const value = data.charCodeAt(i);
+    if (value > 0xff) return null;
+    bytes[i] = value;
+  }
+  return bytes;
+}
+
+function getAdler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length; ++i) {
+    a = (a + data[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/** Raw DEFLATE data in a single block: stored, fixed or dynamic Huffman codes, whichever is shortest */
+function deflate(data: Uint8Array): Uint8Array {
+  const tokens = getTokens(data);
+  const literalFrequencies: number[] = Array(286).fill(0);
+  const distanceFrequencies: number[] = Array(30).fill(0);
+  for (const { value, distance } of tokens) {
+    if (distance === 0) {
+      ++literalFrequencies[value];
+    } else {
+      ++literalFrequencies[257 + findCode(LENGTH_BASE, value)];
+      ++distanceFrequencies[findCode(DISTANCE_BASE, distance)];
+    }
+  }
+  literalFrequencies[END_OF_BLOCK] = 1;
+
+  const literalLengths = getCodeLengths(literalFrequencies, 15);
+  const distanceLengths = getCodeLengths(distanceFrequencies, 15);
+  // an unused distance code still needs one code
+  if (!distanceLengths.some((length) => length > 0)) distanceLengths[0] = 1;
+  const header = getDynamicHeader(literalLengths, distanceLengths);
+
+  const dynamicSize =
+    3 +
+    header.size +
+    getDataSize(tokens, literalLengths, distanceLengths, literalFrequencies);
+  const fixedSize =
+    3 +
+    getDataSize(
+      tokens,
+      FIXED_LITERAL_LENGTHS,
+      FIXED_DISTANCE_LENGTHS,
+      literalFrequencies,
+    );
+  const storedSize =
+    (data.length + 5 * Math.max(1, Math.ceil(data.length / MAX_STORED))) * 8;
+
+  const writer = new BitWriter();
+  if (storedSize <= Math.min(dynamicSize, fixedSize)) {
+    let start = 0;
+    do {
+      const end = Math.min(start + MAX_STORED, data.length);
+      writer.write(end === data.length ? 1 : 0, 1);
+      writer.write(0, 2);
+      writer.align();
+      writer.write(end - start, 16);
+      writer.write(~(end - start) & 0xffff, 16);
+      for (let i = start; i < end; ++i) writer.write(data[i], 8);
+      start = end;
+    } while (start < data.length);
+  } else if (fixedSize <= dynamicSize) {
+    writer.write(1, 1);
+    writer.write(1, 2);
+    writeTokens(writer, tokens, FIXED_LITERAL_LENGTHS, FIXED_DISTANCE_LENGTHS);
+  } else {
+    writer.write(1, 1);
+    writer.write(2, 2);
+    header.write(writer);
+    writeTokens(writer, tokens, literalLengths, distanceLengths);
+  }
+  return writer.finish();
+}
+
+/** LZ77 with hash chains: the longest earlier match at each position, or a literal */
+function getTokens(data: Uint8Array): Token[] {
+  const tokens: Token[] = [];
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const previous = new Int32Array(data.length);
+  const hash = (i: number) =>
+    ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) &
+    ((1 << HASH_BITS) - 1);
+  const insert = (i: number) => {
+    if (i + MIN_MATCH > data.length) return;
+    const h = hash(i);
+    previous[i] = head[h];
+    head[h] = i;
+  };
+
+  for (let i = 0; i < data.length; ) {
+    let bestLength = 0;
+    let bestDistance = 0;
+    if (i + MIN_MATCH <= data.length) {
+      const maxLength = Math.min(MAX_MATCH, data.length - i);
+      let candidate = head[hash(i)];
+      for (
+        let chain = MAX_CHAIN;
+        candidate >= 0 && i - candidate <= WINDOW_SIZE && chain > 0;
+        --chain
+      ) {
+        let length = 0;
+        while (
+          length < maxLength &&
+          data[candidate + length] === data[i + length]
+        ) {
+          ++length;
+        }
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = i - candidate;
+          if (length === maxLength) break;
+        }
+        candidate = previous[candidate];
+      }
+    }
+    if (bestLength >= MIN_MATCH) {
+      tokens.push({ value: bestLength, distance: bestDistance });
+      for (let k = 0; k < bestLength; ++k) insert(i + k);
+      i += bestLength;
+    } else {
+      tokens.push({ value: data[i], distance: 0 });
+      insert(i);
+      ++i;
+    }
+  }
+  return tokens;
+}
+
+/** Index of the last base value not greater than the value */
+function findCode(bases: number[], value: number): number {
+  let code = bases.length - 1;
+  while (bases[code] > value) --code;
+  return code;
+}
+
+/** Huffman code lengths of the symbols, no longer than maxBits */
+function getCodeLengths(frequencies: number[], maxBits: number): number[] {
+  let scaled = frequencies;
+  for (;;) {
+    const lengths = getHuffmanLengths(scaled);
+    if (Math.max(...lengths) <= maxBits) return lengths;
+    // flatten the distribution until the tree is shallow enough
+    scaled = scaled.map((f) => (f === 0 ? 0 : (f >> 1) | 1));
+  }
+}
+
+function getHuffmanLengths(frequencies: number[]): number[] {
+  const lengths: number[] = Array(frequencies.length).fill(0);
+  const used = frequencies.flatMap((f, symbol) => (f > 0 ? [symbol] : []));
+  if (used.length === 1) lengths[used[0]] = 1;
+  if (used.length <= 1) return lengths;
+
+  // nodes: the leaves, then the merged nodes; parent links give the depths
+  const weight = used.map((symbol) => frequencies[symbol]);
+  const parent: number[] = [];
+  const queue = used.map((_, node) => node);
+  while (queue.length > 1) {
+    queue.sort((a, b) => weight[a] - weight[b] || a - b);
+    const [a, b] = queue.splice(0, 2);
+    const node = weight.length;
+    weight.push(weight[a] + weight[b]);
+    parent[a] = node;
+    parent[b] = node;
+    queue.push(node);
+  }
+  used.forEach((symbol, node) => {
+    let depth = 0;
+    for (let n = node; parent[n] !== undefined; n = parent[n]) ++depth;
+    lengths[symbol] = depth;
+  });
+  return lengths;
+}
+
+/** Canonical codes for the code lengths, bit-reversed to be written LSB first */
+function getCodes(lengths: number[]): number[] {
+  const count: number[] = Array(16).fill(0);
+  for (const length of lengths) ++count[length];
+  count[0] = 0;
+  const next: number[] = Array(16).fill(0);
+  for (let bits = 1; bits < 16; ++bits) {
+    next[bits] = (next[bits - 1] + count[bits - 1]) << 1;
+  }
+  return lengths.map((length) => {
+    if (length === 0) return 0;
+    const code = next[length]++;
+    let reversed = 0;
+    for (let i = 0; i < length; ++i)
+      reversed |= ((code >> i) & 1) << (length - 1 - i);
+    return reversed;
+  });
+}
+
+/** Size in bits of the tokens and the end of block */
+function getDataSize(
+  tokens: Token[],
+  literalLengths: number[],
+  distanceLengths: number[],
+  literalFrequencies: number[],
+): number {
+  let size = 0;
+  literalFrequencies.forEach((f, symbol) => {
+    size += f * literalLengths[symbol];
+  });
+  for (const { value, distance } of tokens) {
+    if (distance === 0) continue;
+    const distanceCode = findCode(DISTANCE_BASE, distance);
+    size +=
+      LENGTH_EXTRA[findCode(LENGTH_BASE, value)] +
+      distanceLengths[distanceCode] +
+      DISTANCE_EXTRA[distanceCode];
+  }
+  return size;
+}
+
+function writeTokens(
+  writer: BitWriter,
+  tokens: Token[],
+  literalLengths: number[],
+  distanceLengths: number[],
+): void {
+  const literalCodes = getCodes(literalLengths);
+  const distanceCodes = getCodes(distanceLengths);
+  for (const { value, distance } of tokens) {
+    if (distance === 0) {
+      writer.write(literalCodes[value], literalLengths[value]);
+      continue;
+    }
+    const lengthCode = findCode(LENGTH_BASE, value);
+    writer.write(
+      literalCodes[257 + lengthCode],
+      literalLengths[257 + lengthCode],
+    );
+    writer.write(value - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+    const distanceCode = findCode(DISTANCE_BASE, distance);
+    writer.write(distanceCodes[distanceCode], distanceLengths[distanceCode]);
+    writer.write(
+      distance - DISTANCE_BASE[distanceCode],
+      DISTANCE_EXTRA[distanceCode],
+    );
+  }
+  writer.write(literalCodes[END_OF_BLOCK], literalLengths[END_OF_BLOCK]);
+}
+
+/** The code lengths of a dynamic block, run-length encoded (symbols 16-18) and Huffman coded */
+function getDynamicHeader(
+  literalLengths: number[],
+  distanceLengths: number[],
+): { size: number; write: (writer: BitWriter) => void } {
+  let literalCount = 286;
+  while (literalCount > 257 && literalLengths[literalCount - 1] === 0)
+    --literalCount;
+  let distanceCount = 30;
+  while (distanceCount > 1 && distanceLengths[distanceCount - 1] === 0)
+    --distanceCount;
+  const lengths = [
+    ...literalLengths.slice(0, literalCount),
+    ...distanceLengths.slice(0, distanceCount),
+  ];
+
+  // [symbol, extra bits value]
+  const runs: [number, number][] = [];
+  for (let i = 0; i < lengths.length; ) {
+    const length = lengths[i];
+    let run = 1;
+    while (i + run < lengths.length && lengths[i + run] === length) ++run;
+    if (length === 0 && run >= 3) {
+      run = Math.min(run, 138);
+      runs.push(run >= 11 ? [18, run - 11] : [17, run - 3]);
+    } else if (length !== 0 && run >= 4) {
+      run = Math.min(run, 7);
+      runs.push([length, 0], [16, run - 4]);
+    } else {
+      run = 1;
+      runs.push([length, 0]);
+    }
+    i += run;
+  }
+
+  const frequencies: number[] = Array(19).fill(0);
+  for (const [symbol] of runs) ++frequencies[symbol];
+  const codeLengths = getCodeLengths(frequencies, 7);
+  const codes = getCodes(codeLengths);
+  let codeLengthCount = 19;
+  while (
+    codeLengthCount > 4 &&
+    codeLengths[CODE_LENGTH_ORDER[codeLengthCount - 1]] === 0
+  ) {
+    --codeLengthCount;
+  }
+  const extraBits = [2, 3, 7];
+
+  let size = 14 + 3 * codeLengthCount;
+  for (const [symbol] of runs) {
+    size += codeLengths[symbol] + (symbol >= 16 ? extraBits[symbol - 16] : 0);
+  }
+  return {
+    size,
+    write(writer: BitWriter) {
+      writer.write(literalCount - 257, 5);
+      writer.write(distanceCount - 1, 5);
+      writer.write(codeLengthCount - 4, 4);
+      for (let i = 0; i < codeLengthCount; ++i) {
+        writer.write(codeLengths[CODE_LENGTH_ORDER[i]], 3);
+      }
+      for (const [symbol, extra] of runs) {
+        writer.write(codes[symbol], codeLengths[symbol]);
+        if (symbol >= 16) writer.write(extra, extraBits[symbol - 16]);
+      }
+    },
+  };
+}
+
+/** Bits packed LSB first, as DEFLATE stores them */
+class BitWriter {
+  private bytes: number[] = [];
+  private buffer = 0;
+  private count = 0;
+
+  write(value: number, bits: number): void {
+    for (let i = 0; i < bits; ++i) {
+      this.buffer |= ((value >>> i) & 1) << this.count;
+      if (++this.count === 8) this.flush();
+    }
+  }
+
+  align(): void {
+    if (this.count > 0) this.flush();
+  }
+
+  finish(): Uint8Array {
+    this.align();
+    return Uint8Array.from(this.bytes);
+  }
+
+  private flush(): void {
+    this.bytes.push(this.buffer);
+    this.buffer = 0;
+    this.count = 0;
+  }
+}
+
+/**
+ * Inflate raw DEFLATE data from the start position. Returns the data and the
+ * position after the last block; throws if the data is invalid.
+ */
+function inflate(
+  input: Uint8Array,
+  start: number,
+): { output: Uint8Array; end: number } {
+  const output: number[] = [];
+  let position = start;
+  let buffer = 0;
+  let count = 0;
+  const bits = (need: number): number => {
+    while (count < need) {
+      if (position >= input.length)
+        throw new Error("Deflate Error: unexpected end of data.");
+      buffer |= input[position++] << count;
+      count += 8;
+    }
+    const value = buffer & ((1 << need) - 1);
+    buffer >>>= need;
+    count -= need;
+    return value;
+  };
+  const decode = (table: HuffmanTable): number => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length < 16; ++length) {
+      code |= bits(1);
+      const n = table.count[length];
+      if (code - n < first) return table.symbol[index + (code - first)];
+      index += n;
+      first = (first + n) << 1;
+      code <<= 1;
+    }
+    throw new Error("Deflate Error: invalid code.");
+  };
+
+  let last = 0;
+  while (!last) {
+    last = bits(1);
+    const type = bits(2);
+    if (type === 0) {
+      buffer = 0;
+      count = 0;
+      const length = input[position] | (input[position + 1] << 8);
+      const complement = input[position + 2] | (input[position + 3] << 8);
+      if (
+        position + 4 + length > input.length ||
+        (length ^ 0xffff) !== complement
+      ) {
+        throw new Error("Deflate Error: invalid stored block.");
+      }
+      for (let i = 0; i < length; ++i) output.push(input[position + 4 + i]);
+      position += 4 + length;
+      continue;
+    }
+    let literals: HuffmanTable;
+    let distances: HuffmanTable;
+    if (type === 1) {
+      literals = getHuffmanTable(FIXED_LITERAL_LENGTHS);
+      distances = getHuffmanTable(FIXED_DISTANCE_LENGTHS);
+    } else if (type === 2) {
+      const literalCount = bits(5) + 257;
+      const distanceCount = bits(5) + 1;
+      const codeLengthCount = bits(4) + 4;
+      if (literalCount > 286 || distanceCount > 30) {
+        throw new Error("Deflate Error: too many codes.");
+      }
+      const codeLengths: number[] = Array(19).fill(0);
+      for (let i = 0; i < codeLengthCount; ++i) {
+        codeLengths[CODE_LENGTH_ORDER[i]] = bits(3);
+      }
+      const codeLengthTable = getHuffmanTable(codeLengths);
+      const lengths: number[] = [];
+      while (lengths.length < literalCount + distanceCount) {
+        const symbol = decode(codeLengthTable);
+        if (symbol < 16) {
+          lengths.push(symbol);
+          continue;
+        }
+        if (symbol === 16 && lengths.length === 0) {
+          throw new Error("Deflate Error: repeat without a length.");
+        }
+        const [value, repeat] =
+          symbol === 16
+            ? [lengths[lengths.length - 1], 3 + bits(2)]
+            : symbol === 17
+              ? [0, 3 + bits(3)]
+              : [0, 11 + bits(7)];
+        for (let i = 0; i < repeat; ++i) lengths.push(value);
+      }
+      if (
+        lengths.length > literalCount + distanceCount ||
+        lengths[END_OF_BLOCK] === 0
+      ) {
+        throw new Error("Deflate Error: invalid code lengths.");
+      }
+      literals = getHuffmanTable(lengths.slice(0, literalCount));
+      distances = getHuffmanTable(lengths.slice(literalCount));
+    } else {
+      throw new Error("Deflate Error: invalid block type.");
+    }
+
+    for (;;) {
+      const symbol = decode(literals);
+      if (symbol < 256) {
+        output.push(symbol);
+        continue;
+      }
+      if (symbol === END_OF_BLOCK) break;
+      const lengthCode = symbol - 257;
+      if (lengthCode >= LENGTH_BASE.length)
+        throw new Error("Deflate Error: invalid length.");
+      const length = LENGTH_BASE[lengthCode] + bits(LENGTH_EXTRA[lengthCode]);
+      const distanceCode = decode(distances);
+      if (distanceCode >= DISTANCE_BASE.length)
+        throw new Error("Deflate Error: invalid distance.");
+      const distance =
+        DISTANCE_BASE[distanceCode] + bits(DISTANCE_EXTRA[distanceCode]);
+      if (distance > output.length)
+        throw new Error("Deflate Error: distance too far back.");
+      for (let i = 0; i < length; ++i)
+        output.push(output[output.length - distance]);
+    }
+  }
+  return { output: Uint8Array.from(output), end: position };
+}
+
+function getHuffmanTable(lengths: number[]): HuffmanTable {
+  const count: number[] = Array(16).fill(0);
+  for (const length of lengths) ++count[length];
+  const offsets: number[] = Array(16).fill(0);
+  for (let length = 1; length < 15; ++length) {
+    offsets[length + 1] = offsets[length] + count[length];
+  }
+  const symbol: number[] = [];
+  lengths.forEach((length, s) => {
+    if (length !== 0) symbol[offsets[length]++] = s;
+  });
+  return { count, symbol };
+}
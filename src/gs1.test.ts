@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildElementString,
+  getGS1CheckDigit,
+  isPredefinedLength,
+  parseElementString,
+  validateGS1,
+} from "./gs1";
+
+describe("GS1 element strings", () => {
+  it("should split the AIs and their values", () => {
+    expect(parseElementString("(01)03812345678908(10)ABC123")).toEqual([
+      { ai: "01", value: "03812345678908" },
+      { ai: "10", value: "ABC123" },
+    ]);
+    expect(parseElementString("(8004)ABC")).toEqual([
+      { ai: "8004", value: "ABC" },
+    ]);
+  });
+
+  it("should return null for anything else", () => {
+    expect(parseElementString("")).toBeNull();
+    expect(parseElementString("0103812345678908")).toBeNull();
+    expect(parseElementString("(01)")).toBeNull();
+    expect(parseElementString("(1)ABC")).toBeNull();
+    expect(parseElementString("(10)ABC(21")).toBeNull();
+  });
+
+  it("should know the AIs with a predefined length", () => {
+    expect(isPredefinedLength("01")).toBe(true);
+    expect(isPredefinedLength("3103")).toBe(true);
+    expect(isPredefinedLength("10")).toBe(false);
+    expect(isPredefinedLength("8004")).toBe(false);
+  });
+
+  it("should compute the GS1 check digit", () => {
+    expect(getGS1CheckDigit("0381234567890")).toBe(8);
+    expect(getGS1CheckDigit("00614141123456789")).toBe(0);
+  });
+
+  it("should validate the AIs and their values", () => {
+    expect(
+      validateGS1({ "01": "03812345678908", "17": "260100", "10": "ABC123" }),
+    ).toEqual([]);
+    expect(
+      validateGS1({
+        "01": "03812345678909",
+        "11": "250230",
+        "12": "250100",
+        "10": "ABC~123",
+        "20": "1",
+        "21": "x".repeat(21),
+        "3103": "001250",
+        "421": "276",
+        "99": "",
+        "123": "A",
+      }),
+    ).toEqual([
+      { ai: "10", message: "invalid character" },
+      { ai: "11", message: "invalid date" },
+      { ai: "12", message: "invalid date" },
+      { ai: "20", message: "must be 2 characters" },
+      { ai: "21", message: "too long" },
+      { ai: "99", message: "value missing" },
+      { ai: "123", message: "unknown AI" },
+      { ai: "421", message: "value missing" },
+      { ai: "01", message: "wrong check digit" },
+    ]);
+    expect(
+      validateGS1([
+        { ai: "10", value: "A" },
+        { ai: "10", value: "B" },
+      ]),
+    ).toEqual([{ ai: "10", message: "AI given twice" }]);
+    // 2024 is a leap year, the optional part of AI 8008 may be left out
+    expect(validateGS1({ "7006": "240229", "8008": "24022912" })).toEqual([]);
+  });
+
+  it("should build the element string with a separator after variable lengths", () => {
+    const data = {
+      "01": "03812345678908",
+      "10": "LOT42",
+      "21": "S1",
+      "17": "260100",
+    };
+    expect(buildElementString(data)).toBe(
+      "010381234567890817260100" + "10LOT42\x1d21S1",
+    );
+    expect(buildElementString(data, "parentheses")).toBe(
+      "(01)03812345678908(17)260100(10)LOT42(21)S1",
+    );
+    expect(() => buildElementString({ "01": "03812345678909" })).toThrow(
+      "GS1 Error: (01) wrong check digit.",
+    );
+    expect(() => buildElementString({})).toThrow("GS1 Error: no AIs.");
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * GS1 element strings
+ *
+ * Application Identifiers (AI) and their values, written with the AIs in
+ * parentheses: "(01)03812345678908(10)ABC123", or as they are encoded, with
+ * a GS character after each value of variable length.
+ */
+
+/** One AI and its value */
+export interface GS1Element {
+  /** Application Identifier (2 to 4 digits) */
+  ai: string;
+  value: string;
+}
+
+/** AIs and their values, such as { "01": gtin, "17": expiry, "10": lot } */
+export type GS1Data = Record<string, string> | GS1Element[];
+
+/** A problem with one AI or its value */
+export interface GS1ValidationError {
+  ai: string;
+  message: string;
+}
+
+/** Separator after a value of variable length (FNC1 in the symbol) */
+export const GS1_GROUP_SEPARATOR = "\x1d";
+
+// value formats (GS1 General Specifications, 3.2): N = digits, X = GS1 character
+// set 82, Y = character set 39; "N14" fixed length, "X..20" up to 20 characters,
+// [..] optional; ":csum" ends in a check digit, ":date" begins with YYMMDD,
+// ":date0" the same with day 00 allowed for a whole month
+const AI_FORMATS: Record<string, string> = {
+  "00": "N18:csum",
+  "01": "N14:csum",
+  "02": "N14:csum",
+  "10": "X..20",
+  "11": "N6:date0",
+  "12": "N6:date",
+  "13": "N6:date0",
+  "15": "N6:date0",
+  "16": "N6:date0",
+  "17": "N6:date0",
+  "20": "N2",
+  "21": "X..20",
+  "22": "X..20",
+  "235": "X..28",
+  "240": "X..30",
+  "241": "X..30",
+  "242": "N..6",
+  "243": "X..20",
+  "250": "X..30",
+  "251": "X..30",
+  "253": "N13:csum [X..17]",
+  "254": "X..20",
+  "255": "N13:csum [N..12]",
+  "30": "N..8",
+  "37": "N..8",
+  "400": "X..30",
+  "401": "X..30",
+  "402": "N17:csum",
+  "403": "X..30",
+  "410": "N13:csum",
+  "411": "N13:csum",
+  "412": "N13:csum",
+  "413": "N13:csum",
+  "414": "N13:csum",
+  "415": "N13:csum",
+  "416": "N13:csum",
+  "417": "N13:csum",
+  "420": "X..20",
+  "421": "N3 X..9",
+  "422": "N3",
+  "423": "N3 [N..12]",
+  "424": "N3",
+  "425": "N3 [N..12]",
+  "426": "N3",
+  "427": "X..3",
+  "7001": "N13",
+  "7002": "X..30",
+  "7003": "N10:date",
+  "7004": "N..4",
+  "7005": "X..12",
+  "7006": "N6:date",
+  "7007": "N6:date [N..6]",
+  "7008": "X..3",
+  "7009": "X..10",
+  "7010": "X..2",
+  "7020": "X..20",
+  "7021": "X..20",
+  "7022": "X..20",
+  "7023": "X..30",
+  "7240": "X..20",
+  "8001": "N14",
+  "8002": "X..20",
+  "8003": "N14:csum [X..16]",
+  "8004": "X..30",
+  "8005": "N6",
+  "8006": "N14:csum N4",
+  "8007": "X..34",
+  "8008": "N8:date [N..4]",
+  "8009": "X..50",
+  "8010": "Y..30",
+  "8011": "N..12",
+  "8012": "X..20",
+  "8013": "X..25",
+  "8017": "N18:csum",
+  "8018": "N18:csum",
+  "8019": "N..10",
+  "8020": "X..25",
+  "8026": "N14:csum N4",
+  "8110": "X..70",
+  "8111": "N4",
+  "8112": "X..70",
+  "8200": "X..70",
+  "90": "X..30",
+};
+// measures and amounts with the decimal point position as the last AI digit
+for (const [from, to] of [
+  [310, 316],
+  [320, 337],
+  [340, 357],
+  [360, 369],
+  [395, 395],
+]) {
+  for (let prefix = from; prefix <= to; ++prefix) {
+    for (let n = 0; n < 10; ++n) AI_FORMATS[`${prefix}${n}`] = "N6";
+  }
+}
+for (let n = 0; n < 10; ++n) {
+  AI_FORMATS[`390${n}`] = "N..15";
+  AI_FORMATS[`391${n}`] = "N3 N..15";
+  AI_FORMATS[`392${n}`] = "N..15";
+  AI_FORMATS[`393${n}`] = "N3 N..15";
+  AI_FORMATS[`394${n}`] = "N4";
+  AI_FORMATS[`703${n}`] = "N3 X..27";
+  if (n < 7) AI_FORMATS[`71${n}`] = "X..20";
+  AI_FORMATS[`9${n}`] ??= "X..90";
+}
+
+const CHARACTER_SETS: Record<string, RegExp> = {
+  N: /^[0-9]*$/,
+  X: /^[!"%&'()*+,\-./0-9:;<=>?A-Z_a-z]*$/,
+  Y: /^[#\-/0-9A-Z]*$/,
+};
+
+// first two digits of the AIs with a predefined length, which need no FNC1 separator
+// (GS1 General Specifications, Figure 7.8.5-2)
+const PREDEFINED_LENGTH_PREFIXES = new Set([
+  "00",
+  "01",
+  "02",
+  "03",
+  "04",
+  "11",
+  "12",
+  "13",
+  "14",
+  "15",
+  "16",
+  "17",
+  "18",
+  "19",
+  "20",
+  "31",
+  "32",
+  "33",
+  "34",
+  "35",
+  "36",
+  "41",
+]);
+
+/**
+ * Split an element string into its AIs and values, or return null if it
+ * isn't one: every AI must be 2 to 4 digits in parentheses followed by a
+ * value without parentheses.
+ */
+export function parseElementString(text: string): GS1Element[] | null {
+  const elements: GS1Element[] = [];
+  const element = /\((\d{2,4})\)([^()]+)/y;
+  while (element.lastIndex < text.length) {
+    const match = element.exec(text);
+    if (!match) return null;
+    elements.push({ ai: match[1], value: match[2] });
+  }
+  return elements.length > 0 ? elements : null;
+}
+
+/** The AI has a predefined length, so the next AI can follow without an FNC1 separator */
+export function isPredefinedLength(ai: string): boolean {
+  return PREDEFINED_LENGTH_PREFIXES.has(ai.slice(0, 2));
+}
+
+/** GS1 check digit (modulo 10, weights 3 and 1 from the right) for the digits in front of it */
+export function getGS1CheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; ++i) {
+    const weight = (digits.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Check the AIs and their values: known AI, format and length, check digits
+ * and dates. Returns the problems found, none when the data is valid.
+ */
+export function validateGS1(data: GS1Data): GS1ValidationError[] {
+  const errors: GS1ValidationError[] = [];
+  const seen = new Set<string>();
+  for (const { ai, value } of toElements(data)) {
+    const format = AI_FORMATS[ai];
+    if (format === undefined) {
+      errors.push({ ai, message: "unknown AI" });
+      continue;
+    }
+    if (seen.has(ai)) {
+      errors.push({ ai, message: "AI given twice" });
+    }
+    seen.add(ai);
+    const message = checkValue(format, value);
+    if (message) errors.push({ ai, message });
+  }
+  return errors;
+}
+
+/**
+ * Validate the data and write it as an element string: 'gs' for encoding
+ * (a GS character after every value of variable length but the last),
+ * 'parentheses' for a GS1Composite or the human readable text. AIs of
+ * predefined length go first, in AI order, as they need no separator.
+ * Throws if the data isn't valid.
+ */
+export function buildElementString(
+  data: GS1Data,
+  format: "gs" | "parentheses" = "gs",
+): string {
+  const elements = toElements(data);
+  if (elements.length === 0) {
+    throw new Error("GS1 Error: no AIs.");
+  }
+  const [error] = validateGS1(elements);
+  if (error) {
+    throw new Error(`GS1 Error: (${error.ai}) ${error.message}.`);
+  }
+  const ordered = [
+    ...elements
+      .filter(({ ai }) => isPredefinedLength(ai))
+      .sort((a, b) => a.ai.localeCompare(b.ai)),
+    ...elements.filter(({ ai }) => !isPredefinedLength(ai)),
+  ];
+  if (format === "parentheses") {
+    return ordered.map(({ ai, value }) => `(${ai})${value}`).join("");
+  }
+  return ordered
+    .map(({ ai, value }, i) =>
+      i < ordered.length - 1 && !isPredefinedLength(ai)
+        ? ai + value + GS1_GROUP_SEPARATOR
+        : ai + value,
+    )
+    .join("");
+}
+
+function toElements(data: GS1Data): GS1Element[] {
+  return Array.isArray(data)
+    ? data
+    : Object.entries(data).map(([ai, value]) => ({ ai, value }));
+}
+
+/** Check a value against its format; returns the problem or null */
+function checkValue(format: string, value: string): string | null {
+  let rest = value;
+  for (const component of format.split(" ")) {
+    const match = /^(\[?)([NXY])(\.\.)?(\d+)\]?(?::(\w+))?$/.exec(component);
+    if (!match) continue;
+    const [, optional, set, variable, length, check] = match;
+    const size = Number(length);
+    const part = rest.slice(0, size);
+    if (variable ? part.length === 0 && !optional : part.length < size) {
+      return variable ? "value missing" : `must be ${size} characters`;
+    }
+    if (!CHARACTER_SETS[set].test(part)) {
+      return set === "N" ? "digits only" : "invalid character";
+    }
+    if (
+      check === "csum" &&
+      getGS1CheckDigit(part.slice(0, -1)) !== Number(part.slice(-1))
+    ) {
+      return "wrong check digit";
+    }
+    if (
+      (check === "date" || check === "date0") &&
+      !isDate(part, check === "date0")
+    ) {
+      return "invalid date";
+    }
+    rest = rest.slice(part.length);
+  }
+  return rest.length > 0 ? "too long" : null;
+}
+
+/** The digits begin with a valid YYMMDD date; day 00 (the whole month) if allowed */
+function isDate(digits: string, dayZero: boolean): boolean {
+  const yy = Number(digits.slice(0, 2));
+  const mm = Number(digits.slice(2, 4));
+  const dd = Number(digits.slice(4, 6));
+  if (mm < 1 || mm > 12) return false;
+  if (dd === 0) return dayZero;
+  const days = [
+    31,
+    yy % 4 === 0 ? 29 : 28,
+    31,
+    30,
+    31,
+    30,
+    31,
+    31,
+    30,
+    31,
+    30,
+    31,
+  ];
+  return dd <= days[mm - 1];
+}
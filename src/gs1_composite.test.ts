@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import { GS1Composite } from "./gs1_composite";
+import { CLUSTERS } from "./pdf417_clusters";
+import { CapacityExceededError } from "./pdf417_errors";
+
+const layout = { quietH: 0, quietV: 0, rowHeight: 1 };
+
+/** More than the largest CC-B holds */
+const tooLong = `(91)${"x".repeat(90)}(92)${"x".repeat(90)}`;
+
+/** Codeword at the start of a row, in any cluster */
+function readCodeword(row: number[], start: number): number {
+  const pattern = Number.parseInt(row.slice(start, start + 17).join(""), 2);
+  const cluster = [0, 3, 6].find((c) => CLUSTERS[c].includes(pattern));
+  return cluster === undefined ? -1 : CLUSTERS[cluster].indexOf(pattern);
+}
+
+describe("GS1 Composite Component", () => {
+  it("should encode CC-A with the columns of the linear component", () => {
+    const result = new GS1Composite({ linear: "ean13", ...layout }).generate(
+      "(21)ABC123",
+    );
+    expect(result.version).toBe("a");
+    expect(result.num_cols).toBe(99);
+    expect(result.num_rows).toBe(3);
+    expect(result.bcode[0].join("")).toBe(
+      "110110111011010000100000110101011110011110001001110100100101110000111001111011110010100011011000101",
+    );
+    expect(result.bcode[2].join("")).toBe(
+      "110110100010011100110011100100111101101100001001100110110010110011111101000011011011110011101000101",
+    );
+    // the EAN-13 symbol starts 3 modules to the right
+    expect(result.offset).toBe(-3);
+  });
+
+  it("should compress the date and lot number of AI 17 and 10", () => {
+    const result = new GS1Composite({ linear: "upce", ...layout }).generate(
+      "(17)260101(10)LOT42",
+    );
+    expect(result.num_cols).toBe(55);
+    expect(result.num_rows).toBe(5);
+    expect(result.bcode[0].join("")).toBe(
+      "1101100110101110000010110001000011001001110011110101001",
+    );
+  });
+
+  it("should compress the number and letter AI 90 starts with", () => {
+    // encodation method 11, the rest of AI 90 in its own Alpha mode:
+    // 9 rows, 12 with method 0
+    const alpha = new GS1Composite({ linear: "upce", ...layout }).generate(
+      "(90)3BABCDEFGHIJKLMNOPQRST",
+    );
+    expect(alpha.num_rows).toBe(9);
+    expect(alpha.bcode[0].join("")).toBe(
+      "1100011010101111100101110001111010000100100011010111101",
+    );
+    expect(alpha.bcode[8].join("")).toBe(
+      "1110100100100110111101110001011011110001110011101000101",
+    );
+    // a number of 31 or more, then AI 8004 without its AI: 4 rows, 5 with method 0
+    const numeric = new GS1Composite({ linear: "ean13", ...layout }).generate(
+      "(90)999Z12345678(8004)012345678901",
+    );
+    expect(numeric.num_rows).toBe(4);
+    expect(numeric.bcode[0].join("")).toBe(
+      "110100100010000110011000100100110111000011001001000110110011001000000101111101111101001011101100101",
+    );
+  });
+
+  it("should leave out the left Row Address Pattern of CC-A with 3 columns", () => {
+    const result = new GS1Composite({
+      linear: "databar-limited",
+      ...layout,
+    }).generate("(21)ABC123");
+    expect(result.num_cols).toBe(72);
+    expect(result.bcode[0].join("")).toBe(
+      "101001111000001001010011000111010111001100001111010000110011011101001101",
+    );
+    expect(result.offset).toBe(1);
+  });
+
+  it("should start CC-B with the linkage flag", () => {
+    const result = new GS1Composite({
+      linear: "databar-limited",
+      version: "b",
+      ...layout,
+    }).generate("(21)ABC123");
+    expect(result.version).toBe("b");
+    expect(result.num_cols).toBe(82);
+    expect(readCodeword(result.bcode[0], 10)).toBe(920);
+    expect(result.offset).toBe(-9);
+  });
+
+  it("should move on to CC-B when the data doesn't fit CC-A", () => {
+    const result = new GS1Composite({ linear: "ean13", ...layout }).generate(
+      `(91)${"x".repeat(40)}`,
+    );
+    expect(result.version).toBe("b");
+    expect(result.num_rows).toBe(15);
+  });
+
+  it("should span a GS1-128 symbol with CC-C", () => {
+    const result = new GS1Composite({
+      linear: "gs1-128",
+      linearWidth: 134,
+      version: "c",
+      ...layout,
+    }).generate("(21)ABC123");
+    // 4 data columns of PDF417, starting 7 modules left of the GS1-128 symbol
+    expect(result.num_cols).toBe(137);
+    expect(result.num_rows).toBe(4);
+    expect(result.offset).toBe(-7);
+    // after the start pattern, the row indicator and the symbol length descriptor
+    expect(readCodeword(result.bcode[0], 51)).toBe(920);
+    const cca = new GS1Composite({
+      linear: "gs1-128",
+      linearWidth: 134,
+      ...layout,
+    }).generate("(21)ABC123");
+    expect(cca.version).toBe("a");
+    expect(cca.offset).toBe(21);
+  });
+
+  it("should throw for invalid data or options", () => {
+    const ean13 = new GS1Composite({ linear: "ean13" });
+    expect(() => ean13.generate("21ABC123")).toThrow(
+      expect.objectContaining({ code: "INVALID_OPTION", option: "data" }),
+    );
+    expect(() => ean13.generate("(21)ABC~123")).toThrow(
+      "PDF417 Error: data: (21) invalid character.",
+    );
+    // AI 240 takes at most 30 characters
+    expect(() => ean13.generate(`(240)${"A".repeat(40)}`)).toThrow(
+      expect.objectContaining({ code: "INVALID_OPTION", option: "data" }),
+    );
+    // only GS1-128 takes CC-C
+    expect(() => ean13.generate(tooLong)).toThrow(
+      new CapacityExceededError(136, 124),
+    );
+    expect(() =>
+      new GS1Composite({ linear: "ean13", version: "c" }).generate(
+        "(21)ABC123",
+      ),
+    ).toThrow(expect.objectContaining({ option: "version", value: "c" }));
+    expect(() =>
+      new GS1Composite({ linear: "gs1-128" }).generate("(21)ABC123"),
+    ).toThrow(expect.objectContaining({ option: "linearWidth" }));
+    expect(() =>
+      new GS1Composite({ linear: "ean13", rowHeight: 0 }).generate(
+        "(21)ABC123",
+      ),
+    ).toThrow(expect.objectContaining({ option: "rowHeight", value: 0 }));
+  });
+
+  it("should return the error without throwing", () => {
+    const ean13 = new GS1Composite({ linear: "ean13" });
+    const result = ean13.tryGenerate(tooLong);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toBeInstanceOf(CapacityExceededError);
+    }
+    expect(ean13.tryGenerate("(21)ABC123")).toEqual({
+      ok: true,
+      symbol: ean13.generate("(21)ABC123"),
+    });
+  });
+});
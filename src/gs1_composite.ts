@@ -0,0 +1,673 @@
+/**
+ * GS1 Composite Component - 2D part of a GS1 Composite symbol (ISO/IEC 24723)
+ *
+ * The element strings are packed into a bit stream, then drawn as CC-A
+ * (MicroPDF417 with its own sizes and Base 928 codewords), CC-B (MicroPDF417
+ * in Byte Compaction) or CC-C (PDF417 in Byte Compaction, GS1-128 only).
+ * CC-B and CC-C begin with the 920 codeword that links them to the linear
+ * component; the linear component has to carry its own linkage flag.
+ */
+
+import {
+  type GS1Element,
+  isPredefinedLength,
+  parseElementString,
+  validateGS1,
+} from "./gs1";
+import {
+  MicroPDF417,
+  type MicroPDF417Options,
+  type MicroPDF417Size,
+} from "./micropdf417";
+import {
+  type BarcodeData,
+  PDF417,
+  type PDF417Options,
+  type PDF417Result,
+} from "./pdf417";
+import {
+  CapacityExceededError,
+  EmptyInputError,
+  InvalidOptionError,
+  PDF417Error,
+  UnencodableCharacterError,
+} from "./pdf417_errors";
+
+/** Linear component the 2D component sits on */
+export type GS1LinearComponent =
+  | "ean13"
+  | "upca"
+  | "ean8"
+  | "upce"
+  | "gs1-128"
+  | "databar-omni"
+  | "databar-truncated"
+  | "databar-stacked"
+  | "databar-stacked-omni"
+  | "databar-limited"
+  | "databar-expanded"
+  | "databar-expanded-stacked";
+
+/** CC-A, CC-B or CC-C */
+export type GS1CompositeVersion = "a" | "b" | "c";
+
+export interface GS1CompositeOptions
+  extends Pick<PDF417Options, "rowHeight" | "quietH" | "quietV"> {
+  /** Linear component below the 2D component */
+  linear: GS1LinearComponent;
+  /** Width of the GS1-128 linear component in modules (without quiet zones); required with gs1-128 */
+  linearWidth?: number;
+  /** Smallest version to use; default 'a', a larger one when the data doesn't fit */
+  version?: GS1CompositeVersion;
+}
+
+export interface GS1CompositeData extends BarcodeData {
+  /** Version of the 2D component */
+  version: GS1CompositeVersion;
+  /**
+   * Modules from the left edge of the linear component to the left edge of
+   * the 2D component (quiet zones left out); negative when the 2D component
+   * starts further left
+   */
+  offset: number;
+}
+
+/** Version and columns of the 2D component, growing while the data is encoded */
+interface CompositeLayout {
+  version: GS1CompositeVersion;
+  columns: number;
+  /** Error correction codewords of CC-C */
+  eccws: number;
+}
+
+/** MicroPDF417 drawing the codewords of a CC-A or CC-B */
+class CompositeMicroPDF417 extends MicroPDF417 {
+  constructor(
+    options: MicroPDF417Options,
+    private readonly sizes: MicroPDF417Size[] | null,
+  ) {
+    super(options);
+  }
+
+  /** CC-A: the Base 928 codewords as they are */
+  public generateCodewords(codewords: number[]): BarcodeData {
+    return this.generateFromCodewords(codewords);
+  }
+
+  /** CC-B: the linkage flag, then the bytes in Byte Compaction */
+  public generateBytes(bytes: Uint8Array): BarcodeData {
+    const codewords = this.getSegmentCodewords([{ data: bytes, mode: "byte" }]);
+    return this.generateFromCodewords([920, ...codewords]);
+  }
+
+  protected getSymbolSizes(): MicroPDF417Size[] {
+    return this.sizes ?? super.getSymbolSizes();
+  }
+
+  /** The quiet zones go around the whole composite symbol */
+  protected getMinQuietZone(): number {
+    return 0;
+  }
+}
+
+/** PDF417 drawing a CC-C with a fixed number of columns */
+class CompositePDF417 extends PDF417 {
+  constructor(
+    options: PDF417Options,
+    private readonly columns: number,
+  ) {
+    super(options);
+  }
+
+  /** The linkage flag, then the bytes in Byte Compaction */
+  public generateBytes(bytes: Uint8Array): BarcodeData {
+    const codewords = this.getSegmentCodewords([{ data: bytes, mode: "byte" }]);
+    return this.generateFromCodewords([920, ...codewords]);
+  }
+
+  protected getDimensions(nce: number): [number, number] {
+    return [this.columns, Math.max(3, Math.ceil(nce / this.columns))];
+  }
+
+  protected getMinQuietZone(): number {
+    return 0;
+  }
+}
+
+export class GS1Composite {
+  private static readonly DEFAULT_CC_ROWHEIGHT = 2; // 2X, as MicroPDF417
+  private static readonly DEFAULT_CC_QUIET = 0; // the quiet zones are around the whole composite symbol
+
+  // columns of CC-A and CC-B for each linear component
+  private static readonly LINEAR_COLUMNS: Record<GS1LinearComponent, number> = {
+    ean13: 4,
+    upca: 4,
+    ean8: 3,
+    upce: 2,
+    "gs1-128": 4,
+    "databar-omni": 4,
+    "databar-truncated": 4,
+    "databar-stacked": 2,
+    "databar-stacked-omni": 2,
+    "databar-limited": 3,
+    "databar-expanded": 4,
+    "databar-expanded-stacked": 4,
+  };
+
+  // data bits of the CC-A and CC-B sizes with 2, 3 and 4 columns, largest first
+  private static readonly BIT_CAPACITIES: Record<"a" | "b", number[][]> = {
+    a: [
+      [167, 138, 118, 108, 88, 78, 59],
+      [167, 138, 118, 98, 78],
+      [197, 167, 138, 108, 78],
+    ],
+    b: [
+      [336, 296, 256, 208, 160, 104, 56],
+      [768, 648, 536, 416, 304, 208, 152, 112, 72, 32],
+      [1184, 1016, 840, 672, 496, 352, 264, 208, 152, 96, 56],
+    ],
+  };
+
+  private static readonly MAX_BITS = 8304; // data bits of the largest CC-C
+
+  // columns, rows, error correction codewords, left, centre and right RAP of the first row
+  private static readonly CCA_SIZES: MicroPDF417Size[] = [
+    [2, 5, 4, 39, 0, 19],
+    [2, 6, 4, 1, 0, 33],
+    [2, 7, 5, 32, 0, 12],
+    [2, 8, 5, 8, 0, 40],
+    [2, 9, 6, 14, 0, 46],
+    [2, 10, 6, 43, 0, 23],
+    [2, 12, 7, 20, 0, 52],
+    [3, 4, 4, 11, 43, 23],
+    [3, 5, 5, 1, 33, 13],
+    [3, 6, 6, 5, 37, 17],
+    [3, 7, 7, 15, 47, 27],
+    [3, 8, 7, 21, 1, 33],
+    [4, 3, 4, 40, 20, 52],
+    [4, 4, 5, 43, 23, 3],
+    [4, 5, 6, 46, 26, 6],
+    [4, 6, 7, 34, 14, 46],
+    [4, 7, 8, 29, 9, 41],
+  ].map(([cols, rows, ecc, left, centre, right]) => ({
+    cols,
+    rows,
+    ecc,
+    raps: [left, centre, right],
+    leftRap: cols !== 3,
+  }));
+
+  // values of the general purpose field besides the character codes
+  private static readonly FNC1 = -1;
+  // letters after AI 90 with a 4-bit code in encodation method 11
+  private static readonly AI90_LETTERS = "BDHIJKLNPQRSTVXZ";
+  private static readonly FILL_PATTERN = "00100";
+
+  private readonly options: Required<Omit<GS1CompositeOptions, "linearWidth">>;
+  private readonly linearWidth: number;
+
+  constructor(options: GS1CompositeOptions) {
+    this.options = {
+      linear: options.linear,
+      version: options.version ?? "a",
+      rowHeight: options.rowHeight ?? GS1Composite.DEFAULT_CC_ROWHEIGHT,
+      quietH: options.quietH ?? GS1Composite.DEFAULT_CC_QUIET,
+      quietV: options.quietV ?? GS1Composite.DEFAULT_CC_QUIET,
+    };
+    this.linearWidth = options.linearWidth ?? -1;
+  }
+
+  /**
+   * Generate the 2D component for an element string such as
+   * "(01)03812345678908(10)ABC123", or for the elements already split.
+   * The elements are checked with validateGS1 first.
+   * Throws a PDF417Error if the data or an option is invalid, or if the
+   * data doesn't fit.
+   */
+  public generate(data: string | GS1Element[]): GS1CompositeData {
+    const elements = typeof data === "string" ? parseElementString(data) : data;
+    const { linear, version } = this.options;
+    if (!elements) {
+      throw new InvalidOptionError(
+        "data",
+        data,
+        "must be an element string such as (01)03812345678908",
+      );
+    }
+    if (elements.length === 0) throw new EmptyInputError();
+    const errors = validateGS1(elements);
+    if (errors.length > 0) {
+      throw new InvalidOptionError(
+        "data",
+        data,
+        errors.map(({ ai, message }) => `(${ai}) ${message}`).join(", "),
+      );
+    }
+    if (!(linear in GS1Composite.LINEAR_COLUMNS)) {
+      throw new InvalidOptionError(
+        "linear",
+        linear,
+        "unknown linear component",
+      );
+    }
+    if (!["a", "b", "c"].includes(version)) {
+      throw new InvalidOptionError("version", version, "must be a, b or c");
+    }
+    // CC-C only goes with GS1-128, whose width sets the columns
+    if (linear === "gs1-128" && this.linearWidth < 68) {
+      throw new InvalidOptionError(
+        "linearWidth",
+        this.linearWidth,
+        "must be at least 68 with gs1-128",
+      );
+    }
+    if (linear !== "gs1-128" && version === "c") {
+      throw new InvalidOptionError(
+        "version",
+        version,
+        "CC-C only goes with gs1-128",
+      );
+    }
+    const layout: CompositeLayout = {
+      version,
+      columns:
+        version === "c"
+          ? this.getCCCColumns()
+          : GS1Composite.LINEAR_COLUMNS[linear],
+      eccws: 0,
+    };
+    const bits = this.encodeElements(elements, layout);
+    const symbol = this.generateSymbol(layout, bits);
+    return {
+      ...symbol,
+      version: layout.version,
+      offset: this.getOffset(layout.version),
+    };
+  }
+
+  /**
+   * Like generate, but returns the error instead of throwing it.
+   * Errors other than PDF417Error are still thrown.
+   */
+  public tryGenerate(
+    data: string | GS1Element[],
+  ): PDF417Result<GS1CompositeData> {
+    try {
+      return { ok: true, symbol: this.generate(data) };
+    } catch (error) {
+      if (error instanceof PDF417Error) return { ok: false, error };
+      throw error;
+    }
+  }
+
+  /** Draw the encoded bits; throws if an option is invalid */
+  private generateSymbol(layout: CompositeLayout, bits: string): BarcodeData {
+    const { rowHeight, quietH, quietV } = this.options;
+    if (layout.version === "a") {
+      return new CompositeMicroPDF417(
+        { columns: layout.columns, rowHeight, quietH, quietV },
+        GS1Composite.CCA_SIZES,
+      ).generateCodewords(GS1Composite.getBase928Codewords(bits));
+    }
+    if (layout.version === "b") {
+      return new CompositeMicroPDF417(
+        { columns: layout.columns, rowHeight, quietH, quietV },
+        null,
+      ).generateBytes(GS1Composite.getBytes(bits));
+    }
+    return new CompositePDF417(
+      {
+        errorCorrectionLevel: Math.log2(layout.eccws) - 1,
+        rowHeight,
+        quietH,
+        quietV,
+      },
+      layout.columns,
+    ).generateBytes(GS1Composite.getBytes(bits));
+  }
+
+  /** Columns of a CC-C as wide as the GS1-128 symbol */
+  private getCCCColumns(): number {
+    return this.linearWidth === 68
+      ? 1
+      : Math.min(Math.floor((this.linearWidth - 52) / 17), 30);
+  }
+
+  /** Position of the 2D component over the linear component (ISO/IEC 24723, 6.3) */
+  private getOffset(version: GS1CompositeVersion): number {
+    switch (this.options.linear) {
+      case "ean13":
+      case "upca":
+      case "upce":
+        return -3;
+      case "ean8":
+        return version === "a" ? -4 : -14;
+      case "gs1-128": {
+        if (version === "c") return -7;
+        // the right of the 4-column component over the symbol character before the centre
+        const chars = Math.floor((this.linearWidth - 2) / 11);
+        const right = Math.trunc((chars - 9) / 2);
+        return (chars - right - 1) * 11 + 10 - 99;
+      }
+      case "databar-omni":
+      case "databar-truncated":
+        return -4;
+      case "databar-limited":
+        return version === "a" ? 1 : -9;
+      case "databar-expanded":
+      case "databar-expanded-stacked":
+        return 2;
+      default:
+        return 1; // DataBar Stacked
+    }
+  }
+
+  /**
+   * Bit stream of the elements (ISO/IEC 24723, 5.2): the encodation method,
+   * the compressed data field and the general purpose field, padded to the
+   * capacity of the smallest symbol that holds it.
+   * Throws if a character can't be encoded or the data doesn't fit.
+   */
+  private encodeElements(
+    elements: GS1Element[],
+    layout: CompositeLayout,
+  ): string {
+    const { FNC1 } = GS1Composite;
+    let rest = elements;
+    let cdf = "0"; // encodation method 0
+    let gpf: number[] = [];
+    let mode: "numeric" | "alphanumeric" | "iso646" | "alpha" = "numeric";
+    const ai = rest[0].ai;
+    if (ai === "10" || ai === "11" || ai === "17") {
+      // encodation method 10: the date of AI 11 or 17, then the lot number of AI 10
+      const date = /^(\d\d)(\d\d)(\d\d)/.exec(rest[0].value);
+      if (ai !== "10" && date) {
+        const [yy, mm, dd] = date.slice(1).map(Number);
+        cdf = `10${GS1Composite.toBits(yy * 384 + (mm - 1) * 32 + dd, 16)}${ai === "11" ? 0 : 1}`;
+        rest = rest.slice(1);
+      } else {
+        cdf = "1011"; // no date
+      }
+      if (rest.length === 0) {
+        cdf += "000001111";
+      } else if (rest[0].ai === "10") {
+        gpf = GS1Composite.toCharCodes(rest[0].value);
+        if (rest.length > 1) gpf.push(FNC1);
+        rest = rest.slice(1);
+      } else {
+        gpf = [FNC1]; // no lot number
+      }
+    } else if (ai === "90" && /^(?:[1-9]\d{0,2})?[A-Z]/.test(rest[0].value)) {
+      // encodation method 11: the number and letter AI 90 starts with, the
+      // mode of the rest of it, and whether AI 21 or 8004 follows
+      const { value } = rest[0];
+      const at = value.search(/[A-Z]/);
+      const number = Number(value.slice(0, at));
+      const letter = value.charCodeAt(at);
+      const remainder = GS1Composite.toCharCodes(value.slice(at + 1));
+      const letters = remainder.filter((c) => c >= 65 && c <= 90).length;
+      const digits = remainder.filter((c) => c >= 48 && c <= 57).length;
+      if (
+        letters + digits < remainder.length ||
+        (letters > 0 && letters <= digits)
+      ) {
+        mode = "alphanumeric";
+        cdf = "110";
+      } else if (letters === 0) {
+        mode = "numeric";
+        cdf = "1110";
+      } else {
+        mode = "alpha"; // upper case letters in 5 bits, digits in 6
+        cdf = "1111";
+      }
+      const next = rest[1]?.ai;
+      cdf += next === "21" ? "10" : next === "8004" ? "11" : "0";
+      const short = GS1Composite.AI90_LETTERS.indexOf(value[at]);
+      cdf +=
+        number < 31 && short >= 0
+          ? GS1Composite.toBits(number, 5) + GS1Composite.toBits(short, 4)
+          : `11111${GS1Composite.toBits(number, 10)}${GS1Composite.toBits(letter - 65, 5)}`;
+      const chars = rest.length > 1 ? [...remainder, FNC1] : remainder;
+      if (mode === "alpha") {
+        for (const c of chars) {
+          cdf +=
+            c === FNC1
+              ? "11111"
+              : GS1Composite.toBits(c >= 65 ? c - 65 : c + 4, c >= 65 ? 5 : 6);
+        }
+        // FNC1 goes back to Numeric
+        if (rest.length > 1) mode = "numeric";
+      } else {
+        gpf = chars;
+      }
+      rest = rest.slice(1);
+      if (next === "21" || next === "8004") {
+        // the value without its AI
+        gpf.push(...GS1Composite.toCharCodes(rest[0].value));
+        rest = rest.slice(1);
+        if (rest.length > 0) gpf.push(FNC1);
+      }
+    }
+    rest.forEach(({ ai, value }, i) => {
+      gpf.push(...GS1Composite.toCharCodes(ai + value));
+      if (i < rest.length - 1 && !isPredefinedLength(ai)) gpf.push(FNC1);
+    });
+    for (const { ai, value } of elements) {
+      const index = Array.from(ai + value).findIndex(
+        (c) => GS1Composite.getISO646Bits(c.charCodeAt(0)) === null,
+      );
+      if (index >= 0) {
+        throw new UnencodableCharacterError(
+          index,
+          (ai + value)[index],
+          "the ISO/IEC 646 characters of a GS1 Composite",
+        );
+      }
+    }
+
+    const n = gpf.length;
+    // look ahead: characters in Numeric (pairs) and Alphanumeric encodation
+    // from each position, and distance to the next character only ISO/IEC 646 has
+    const numericRuns = Array(n + 2).fill(0);
+    numericRuns[n + 1] = -1;
+    const alphanumericRuns = Array(n + 1).fill(0);
+    const nextISO646Only = Array(n + 1).fill(9999);
+    for (let i = n - 1; i >= 0; --i) {
+      numericRuns[i] = GS1Composite.isNumericPair(gpf[i], gpf[i + 1] ?? 48)
+        ? numericRuns[i + 2] + 2
+        : 0;
+      const alphanumeric = GS1Composite.getAlphanumericBits(gpf[i]) !== null;
+      alphanumericRuns[i] = alphanumeric ? alphanumericRuns[i + 1] + 1 : 0;
+      nextISO646Only[i] = alphanumeric ? nextISO646Only[i + 1] + 1 : 0;
+    }
+
+    let encoded = "";
+    for (let i = 0; i < n; ) {
+      const c = gpf[i];
+      if (mode === "numeric") {
+        if (i < n - 1 && GS1Composite.isNumericPair(c, gpf[i + 1])) {
+          encoded += GS1Composite.getNumericBits(c, gpf[i + 1]);
+          i += 2;
+        } else if (i < n - 1 || c < 48 || c > 57) {
+          encoded += "0000"; // latch to Alphanumeric
+          mode = "alphanumeric";
+        } else {
+          // a last digit fits in 4 bits when that leaves no room for a pair
+          const rem = this.getRemainingBits(
+            cdf.length + encoded.length,
+            layout,
+          );
+          encoded +=
+            rem >= 4 && rem <= 6
+              ? GS1Composite.toBits(c - 47, 4).padEnd(rem, "0")
+              : GS1Composite.getNumericBits(c, FNC1);
+          i += 1;
+        }
+      } else if (c === FNC1) {
+        encoded += "01111"; // back to Numeric
+        mode = "numeric";
+        i += 1;
+      } else if (mode === "alphanumeric") {
+        if (GS1Composite.getAlphanumericBits(c) === null) {
+          encoded += "00100"; // latch to ISO/IEC 646
+          mode = "iso646";
+        } else if (
+          numericRuns[i] >= 6 ||
+          (numericRuns[i] >= 4 && numericRuns[i] + i === n)
+        ) {
+          encoded += "000"; // latch to Numeric
+          mode = "numeric";
+        } else {
+          encoded += GS1Composite.getAlphanumericBits(c);
+          i += 1;
+        }
+      } else if (numericRuns[i] >= 4 && nextISO646Only[i] >= 10) {
+        encoded += "000"; // latch to Numeric
+        mode = "numeric";
+      } else if (alphanumericRuns[i] >= 5 && nextISO646Only[i] >= 10) {
+        encoded += "00100"; // latch to Alphanumeric
+        mode = "alphanumeric";
+      } else {
+        encoded += GS1Composite.getISO646Bits(c);
+        i += 1;
+      }
+    }
+
+    const bits = cdf + encoded;
+    const rem = this.getRemainingBits(bits.length, layout);
+    if (rem < 0) {
+      // in Byte Compaction codewords, as CC-B and CC-C take the bytes
+      const largest =
+        layout.version === "c"
+          ? GS1Composite.MAX_BITS
+          : GS1Composite.BIT_CAPACITIES.b[layout.columns - 2][0];
+      throw new CapacityExceededError(
+        GS1Composite.getByteCodewords(bits.length),
+        GS1Composite.getByteCodewords(largest),
+      );
+    }
+    let pad = GS1Composite.FILL_PATTERN.repeat(Math.ceil(rem / 5));
+    if (mode === "numeric") pad = `0000${pad}`; // latch to Alphanumeric first
+    if (mode === "alpha") pad = `111110000${pad}`; // FNC1 to Numeric, then the latch
+    return bits + pad.slice(0, rem);
+  }
+
+  /**
+   * Bits left in the smallest symbol that holds the used bits, moving on to
+   * a larger version when the current one is full; -1 if nothing holds them.
+   */
+  private getRemainingBits(used: number, layout: CompositeLayout): number {
+    if (layout.version !== "c") {
+      const capacities =
+        GS1Composite.BIT_CAPACITIES[layout.version][layout.columns - 2];
+      const capacity = capacities.filter((bits) => bits >= used).pop();
+      if (capacity !== undefined) return capacity - used;
+      if (layout.version === "a") {
+        layout.version = "b";
+      } else if (this.options.linear === "gs1-128") {
+        layout.version = "c";
+        layout.columns = this.getCCCColumns();
+      } else {
+        return -1;
+      }
+      return this.getRemainingBits(used, layout);
+    }
+
+    // CC-C: the bytes in Byte Compaction, the error correction codewords,
+    // the linkage flag, the latch and the symbol length descriptor
+    const bytes = Math.ceil(used / 8);
+    let m = Math.floor(bytes / 6) * 5 + (bytes % 6);
+    if (m <= 40) layout.eccws = 8;
+    else if (m <= 160) layout.eccws = 16;
+    else if (m <= 320) layout.eccws = 32;
+    else if (m <= 833) layout.eccws = 64;
+    else layout.eccws = 32;
+    m += layout.eccws + 3;
+    while (Math.ceil(m / layout.columns) > 30 && layout.columns < 30) {
+      layout.columns += 1;
+    }
+    const rows = Math.max(Math.ceil(m / layout.columns), 3);
+    // fill the symbol: Byte Compaction takes 6 bytes in 5 codewords
+    const capacity = layout.columns * rows - layout.eccws - 3;
+    const target = (Math.floor(capacity / 5) * 6 + (capacity % 5)) * 8;
+    return used <= GS1Composite.MAX_BITS ? target - used : -1;
+  }
+
+  /** Base 928 codewords of the bit stream of a CC-A, 7 for every 69 bits */
+  private static getBase928Codewords(bits: string): number[] {
+    const codewords: number[] = [];
+    for (let b = 0; b < bits.length; b += 69) {
+      const group = bits.slice(b, b + 69);
+      let value = BigInt(`0b${group}`);
+      const part: number[] = [];
+      for (let k = Math.floor(group.length / 10) + 1; k > 0; --k) {
+        part.unshift(Number(value % 928n));
+        value /= 928n;
+      }
+      codewords.push(...part);
+    }
+    return codewords;
+  }
+
+  /** Byte Compaction codewords of the bits: 5 for every 6 bytes */
+  private static getByteCodewords(bits: number): number {
+    const bytes = Math.ceil(bits / 8);
+    return Math.floor(bytes / 6) * 5 + (bytes % 6);
+  }
+
+  /** Bytes of the bit stream of a CC-B or CC-C */
+  private static getBytes(bits: string): Uint8Array {
+    const bytes = new Uint8Array(bits.length / 8);
+    for (let i = 0; i < bytes.length; ++i) {
+      bytes[i] = Number.parseInt(bits.slice(i * 8, i * 8 + 8), 2);
+    }
+    return bytes;
+  }
+
+  private static toCharCodes(text: string): number[] {
+    return Array.from(text, (c) => c.charCodeAt(0));
+  }
+
+  private static toBits(value: number, length: number): string {
+    return value.toString(2).padStart(length, "0");
+  }
+
+  /** Two digits (or FNC1) in Numeric encodation; not two FNC1 */
+  private static isNumericPair(c1: number, c2: number): boolean {
+    const digit = (c: number) =>
+      (c >= 48 && c <= 57) || c === GS1Composite.FNC1;
+    return digit(c1) && digit(c2) && !(c1 === c2 && c1 === GS1Composite.FNC1);
+  }
+
+  private static getNumericBits(c1: number, c2: number): string {
+    const value = (c: number) => (c === GS1Composite.FNC1 ? 10 : c - 48);
+    return GS1Composite.toBits(11 * value(c1) + value(c2) + 8, 7);
+  }
+
+  /** Bits of the character in Alphanumeric encodation, null if there are none */
+  private static getAlphanumericBits(c: number): string | null {
+    const { toBits } = GS1Composite;
+    if (c === GS1Composite.FNC1) return "01111";
+    if (c >= 48 && c <= 57) return toBits(c - 43, 5);
+    if (c >= 65 && c <= 90) return toBits(c - 33, 6);
+    if (c === 42) return "111010"; // *
+    if (c >= 44 && c <= 47) return toBits(c + 15, 6); // , - . /
+    return null;
+  }
+
+  /** Bits of the character in ISO/IEC 646 encodation, null if there are none */
+  private static getISO646Bits(c: number): string | null {
+    const { toBits } = GS1Composite;
+    if (c === GS1Composite.FNC1) return "01111";
+    if (c >= 48 && c <= 57) return toBits(c - 43, 5);
+    if (c >= 65 && c <= 90) return toBits(c - 1, 7);
+    if (c >= 97 && c <= 122) return toBits(c - 7, 7);
+    if (c === 33) return "11101000"; // !
+    if (c === 34) return "11101001"; // "
+    if (c >= 37 && c <= 47) return toBits(c + 197, 8); // % to /
+    if (c >= 58 && c <= 63) return toBits(c + 187, 8); // : to ?
+    if (c === 95) return "11111011"; // _
+    if (c === 32) return "11111100"; // space
+    return null;
+  }
+}
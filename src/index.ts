@@ -1,2 +1,23 @@
-import { PDF417 } from "./pdf417";
-import { renderPDF417ToSVG } from "./svg";
+export * from "./aamva";
+export * from "./bcbp";
+export {
+  compressPayload,
+  decompressPayload,
+  isCompressedPayload,
+} from "./deflate";
+export * from "./gs1";
+export * from "./gs1_composite";
+export * from "./iso15434";
+export * from "./micropdf417";
+export * from "./pdf417";
+export * from "./pdf417_eci";
+export * from "./pdf417_errors";
+export {
+  type MacroPDF417File,
+  type MacroPDF417Segment,
+  getMacroChecksum,
+  parseMacroPDF417,
+  reassembleMacroPDF417,
+} from "./pdf417_macro";
+export * from "./signature";
+export { renderPDF417ToSVG } from "./svg";
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { buildISO15434, getTransportationFields } from "./iso15434";
+import { PDF417 } from "./pdf417";
+import { CLUSTERS } from "./pdf417_clusters";
+
+describe("ISO/IEC 15434 messages", () => {
+  it("should write the transportation data of format 01", () => {
+    const message = buildISO15434({
+      format: "01",
+      fields: getTransportationFields({
+        postalCode: "841706672",
+        countryCode: "840",
+        serviceClass: "001",
+        trackingNumber: "1Z12345678",
+        carrier: "UPSN",
+        shipperNumber: "12345E",
+        pickupDay: 89,
+        packageNumber: 1,
+        weight: 10,
+        addressValidation: true,
+        shipToAddress: "123 MAIN ST",
+        shipToCity: "SALT LAKE CITY",
+        shipToState: "UT",
+      }),
+    });
+    expect(message).toBe(
+      "[)>\x1e01\x1d96841706672\x1d840\x1d001\x1d1Z12345678\x1dUPSN\x1d12345E\x1d089\x1d\x1d1/1\x1d10\x1dY\x1d123 MAIN ST\x1dSALT LAKE CITY\x1dUT\x1e\x04",
+    );
+  });
+
+  it("should put the Data Identifiers in front of the fields of format 06", () => {
+    const message = buildISO15434([
+      {
+        format: "06",
+        fields: [
+          { di: "1J", value: "UN123456789A0000001" },
+          { di: "P", value: "ABC-1" },
+          { di: "7Q", value: "10KG" },
+        ],
+      },
+      { format: "07", fields: ["FRAGILE"] },
+    ]);
+    expect(message).toBe(
+      "[)>\x1e06\x1d1JUN123456789A0000001\x1dPABC-1\x1d7Q10KG\x1e07\x1dFRAGILE\x1e\x04",
+    );
+  });
+
+  it("should reject separators in the fields", () => {
+    expect(() => buildISO15434({ format: "07", fields: ["A\x1eB"] })).toThrow(
+      "ISO 15434 Error: a field may not contain RS, GS or EOT.",
+    );
+    expect(() =>
+      buildISO15434({ format: "06", fields: [{ di: "j", value: "1" }] }),
+    ).toThrow('ISO 15434 Error: invalid Data Identifier "j".');
+    expect(() =>
+      buildISO15434({ format: "06", version: "96", fields: [] }),
+    ).toThrow("ISO 15434 Error: format 06 has no version.");
+  });
+
+  it("should keep the control characters in the symbol", () => {
+    const result = new PDF417({ rowHeight: 1 }).generate(
+      buildISO15434({ format: "07", fields: ["A"] }),
+    );
+    const codewords: number[] = [];
+    result.bcode.slice(2, -2).forEach((row, r) => {
+      const bits = row.join("");
+      // after the quiet zone, the start pattern and the left row indicator
+      for (let start = 36; start < bits.length - 37; start += 17) {
+        const pattern = Number.parseInt(bits.slice(start, start + 17), 2);
+        codewords.push(CLUSTERS[(r % 3) * 3].indexOf(pattern));
+      }
+    });
+    // Byte Compaction: "[)>" RS "07" in base 900, then GS "A" RS EOT
+    expect(codewords.slice(1, 11)).toEqual([
+      901, 152, 693, 366, 547, 267, 29, 65, 30, 4,
+    ]);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * ISO/IEC 15434 messages (ANSI MH10.8.3), as on carrier shipping labels
+ *
+ * "[)>" RS, then every format envelope: the format indicator, GS, the fields
+ * separated by GS, and RS; the message ends with EOT. Format 01 holds the
+ * transportation data, format 06 fields start with an ASC MH10.8.2 Data
+ * Identifier ("1J", "P", "Q", ...), format 07 is free text.
+ */
+
+/** Supported format indicators */
+export type ISO15434Format = "01" | "06" | "07";
+
+/** A field of format 06: Data Identifier and data */
+export interface DataIdentifierField {
+  /** Data Identifier: an uppercase letter after up to 3 digits, such as "1J" */
+  di: string;
+  value: string;
+}
+
+/** One format envelope of the message */
+export interface ISO15434Envelope {
+  format: ISO15434Format;
+  /** Two-digit version of format 01; default "96" */
+  version?: string;
+  fields: (string | DataIdentifierField)[];
+}
+
+/** Transportation data of format 01, in the order carriers such as UPS expect */
+export interface TransportationData {
+  /** Ship-to postal code */
+  postalCode: string;
+  /** Ship-to country, ISO 3166 numeric code such as "840" */
+  countryCode: string;
+  /** Class of service, 3 digits */
+  serviceClass: string;
+  trackingNumber: string;
+  /** Standard Carrier Alpha Code, such as "UPSN" */
+  carrier: string;
+  shipperNumber?: string;
+  /** Day of the year of the pickup */
+  pickupDay?: number;
+  shipmentId?: string;
+  /** Package number in the shipment, from 1 */
+  packageNumber?: number;
+  packageCount?: number;
+  /** Weight, in the unit of the carrier */
+  weight?: number;
+  addressValidation?: boolean;
+  shipToAddress?: string;
+  shipToCity?: string;
+  shipToState?: string;
+}
+
+export const ISO15434_RECORD_SEPARATOR = "\x1e";
+export const ISO15434_GROUP_SEPARATOR = "\x1d";
+export const ISO15434_END_OF_TRANSMISSION = "\x04";
+
+const MESSAGE_HEADER = "[)>";
+const DEFAULT_TRANSPORTATION_VERSION = "96";
+
+/**
+ * Write the message with one or more format envelopes. Throws if a field
+ * contains a separator, as ISO/IEC 15434 has no way to escape one.
+ * The control characters are encoded by `PDF417.generate` like any other.
+ */
+export function buildISO15434(
+  envelopes: ISO15434Envelope | ISO15434Envelope[],
+): string {
+  const list = Array.isArray(envelopes) ? envelopes : [envelopes];
+  if (list.length === 0) {
+    throw new Error("ISO 15434 Error: no format envelopes.");
+  }
+  let message = MESSAGE_HEADER + ISO15434_RECORD_SEPARATOR;
+  for (const { format, version, fields } of list) {
+    if (!["01", "06", "07"].includes(format)) {
+      throw new Error(`ISO 15434 Error: unsupported format "${format}".`);
+    }
+    let header = format + ISO15434_GROUP_SEPARATOR;
+    if (format === "01") {
+      const transportationVersion = version ?? DEFAULT_TRANSPORTATION_VERSION;
+      if (!/^\d{2}$/.test(transportationVersion)) {
+        throw new Error("ISO 15434 Error: the version must be 2 digits.");
+      }
+      header += transportationVersion;
+    } else if (version !== undefined) {
+      throw new Error(`ISO 15434 Error: format ${format} has no version.`);
+    }
+    const values = fields.map((field) => getFieldValue(field, format));
+    message +=
+      header +
+      values.join(ISO15434_GROUP_SEPARATOR) +
+      ISO15434_RECORD_SEPARATOR;
+  }
+  return message + ISO15434_END_OF_TRANSMISSION;
+}
+
+/** The fields of a format 01 envelope, with the ones not given left empty */
+export function getTransportationFields(data: TransportationData): string[] {
+  const { packageNumber, packageCount, pickupDay, weight, addressValidation } =
+    data;
+  return [
+    data.postalCode,
+    data.countryCode,
+    data.serviceClass,
+    data.trackingNumber,
+    data.carrier,
+    data.shipperNumber ?? "",
+    pickupDay === undefined ? "" : String(pickupDay).padStart(3, "0"),
+    data.shipmentId ?? "",
+    packageNumber === undefined
+      ? ""
+      : `${packageNumber}/${packageCount ?? packageNumber}`,
+    weight === undefined ? "" : String(weight),
+    addressValidation === undefined ? "" : addressValidation ? "Y" : "N",
+    data.shipToAddress ?? "",
+    data.shipToCity ?? "",
+    data.shipToState ?? "",
+  ];
+}
+
+function getFieldValue(
+  field: string | DataIdentifierField,
+  format: ISO15434Format,
+): string {
+  let value: string;
+  if (typeof field === "string") {
+    value = field;
+  } else {
+    if (format !== "06") {
+      throw new Error(
+        `ISO 15434 Error: format ${format} has no Data Identifiers.`,
+      );
+    }
+    if (!/^\d{0,3}[A-Z]$/.test(field.di)) {
+      throw new Error(
+        `ISO 15434 Error: invalid Data Identifier "${field.di}".`,
+      );
+    }
+    value = field.di + field.value;
+  }
+  const separators = [
+    ISO15434_RECORD_SEPARATOR,
+    ISO15434_GROUP_SEPARATOR,
+    ISO15434_END_OF_TRANSMISSION,
+  ];
+  if (separators.some((separator) => value.includes(separator))) {
+    throw new Error("ISO 15434 Error: a field may not contain RS, GS or EOT.");
+  }
+  return value;
+}
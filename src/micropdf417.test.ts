@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { MicroPDF417 } from "./micropdf417";
+import type { BarcodeData } from "./pdf417";
+import { CLUSTERS } from "./pdf417_clusters";
+
+/** Codewords (error correction included) of a symbol without quiet zones and a row height of 1. */
+function readCodewords(result: BarcodeData): number[] {
+  const cols = [38, 55, 82, 99].indexOf(result.num_cols) + 1;
+  // start of each codeword in the row, after the RAPs
+  const starts = [[10], [10, 27], [10, 37, 54], [10, 27, 54, 71]][cols - 1];
+  const codewords: number[] = [];
+  for (const row of result.bcode) {
+    for (const start of starts) {
+      const pattern = Number.parseInt(row.slice(start, start + 17).join(""), 2);
+      const cluster = [0, 3, 6].find((c) => CLUSTERS[c].includes(pattern));
+      codewords.push(
+        cluster === undefined ? -1 : CLUSTERS[cluster].indexOf(pattern),
+      );
+    }
+  }
+  return codewords;
+}
+
+const layout = { quietH: 0, quietV: 0, rowHeight: 1 };
+
+/** MicroPDF417 that lets the quiet zones be left out, to read the symbol alone */
+class BareMicroPDF417 extends MicroPDF417 {
+  protected getMinQuietZone(): number {
+    return 0;
+  }
+}
+
+describe("MicroPDF417", () => {
+  it("should create a new instance with default options", () => {
+    const micropdf417 = new MicroPDF417();
+    expect(micropdf417).toBeInstanceOf(MicroPDF417);
+  });
+
+  it("should lay out the rows with Row Address Patterns", () => {
+    const result = new BareMicroPDF417({ columns: 2, ...layout }).generate(
+      "MicroPDF417",
+    );
+    // 2 columns, 8 rows
+    expect(result.num_cols).toBe(55);
+    expect(result.bcode).toHaveLength(8);
+    expect(result.bcode[0].join("")).toBe(
+      "1100100010111110011010111101110110010000110011001000101",
+    );
+    expect(result.bcode[7].join("")).toBe(
+      "1110111010111000001000110101101011100000010011101110101",
+    );
+    expect(readCodewords(result).slice(0, 8)).toEqual([
+      387, 242, 524, 868, 453, 178, 121, 239,
+    ]);
+  });
+
+  it("should choose the smallest symbol that holds the data", () => {
+    const micropdf417 = new BareMicroPDF417(layout);
+    const short = micropdf417.generate("A");
+    // 4 columns and 4 rows are smaller than 1 column and 11 rows
+    expect(short.num_cols).toBe(99);
+    expect(short.num_rows).toBe(4);
+    const long = micropdf417.generate("1".repeat(300));
+    expect(long.num_cols).toBe(99);
+  });
+
+  it("should keep to the requested number of columns", () => {
+    const result = new BareMicroPDF417({ columns: 1, ...layout }).generate(
+      "Hello",
+    );
+    expect(result.num_cols).toBe(38);
+    expect(result.num_rows).toBe(11);
+  });
+
+  it("should add the quiet zones and row height", () => {
+    const result = new MicroPDF417({
+      columns: 1,
+      quietH: 1,
+      quietV: 2,
+      rowHeight: 3,
+    }).generate("Hello");
+    expect(result.num_cols).toBe(40);
+    expect(result.num_rows).toBe(11 * 3 + 4);
+    expect(result.bcode).toHaveLength(result.num_rows);
+  });
+
+  it("should check the columns and quiet zones", () => {
+    expect(() => new MicroPDF417({ columns: 5 })).toThrow(
+      "PDF417 Error: columns: must be an integer from 1 to 4.",
+    );
+    expect(() => new MicroPDF417({ quietV: 0 })).toThrow(
+      "PDF417 Error: quietV: must be an integer of at least 1.",
+    );
+    const result = new MicroPDF417({
+      columns: 5,
+      validation: "lenient",
+    }).generate("Hello");
+    expect(result.num_cols).toBe(99 + 2 * 2);
+    expect(result.warnings).toEqual([
+      "columns: 5 is not an integer from 1 to 4, 4 is used",
+    ]);
+  });
+
+  it("should put the Code 128 emulation codeword first", () => {
+    const result = new BareMicroPDF417({
+      columns: 4,
+      code128Emulation: 903,
+      ...layout,
+    }).generate("01");
+    // explicit Text Compaction latch after the emulation codeword
+    expect(readCodewords(result).slice(0, 4)).toEqual([903, 900, 840, 59]);
+  });
+
+  it("should throw when the data doesn't fit", () => {
+    const micropdf417 = new MicroPDF417();
+    expect(() => micropdf417.generate("x".repeat(400))).toThrow(
+      expect.objectContaining({ code: "CAPACITY_EXCEEDED", available: 126 }),
+    );
+    expect(() =>
+      new MicroPDF417({ columns: 1 }).generate("x".repeat(60)),
+    ).toThrow(
+      expect.objectContaining({
+        code: "DIMENSION_CONSTRAINT",
+        required: 31,
+        available: 20,
+      }),
+    );
+  });
+});
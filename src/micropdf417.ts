@@ -0,0 +1,311 @@
+/**
+ * MicroPDF417 - 2D Barcode generator (ISO/IEC 24728)
+ *
+ * Shares the codeword patterns and the compaction of PDF417; the symbols
+ * come in 34 fixed sizes of 1 to 4 columns, with Row Address Patterns on
+ * the sides of every row instead of start and stop patterns.
+ */
+
+import { type BarcodeData, PDF417, type PDF417Options } from "./pdf417";
+import { CLUSTERS } from "./pdf417_clusters";
+import {
+  CapacityExceededError,
+  DimensionConstraintError,
+  EmptyInputError,
+} from "./pdf417_errors";
+
+/**
+ * Code 128 emulation codewords, placed in front of the data to have the
+ * decoder transmit it the way a Code 128 symbol would (ISO/IEC 24728, 5.4.1.5)
+ */
+export type Code128Emulation = 903 | 904 | 905 | 906 | 907 | 912 | 914 | 915;
+
+export interface MicroPDF417Options
+  extends Pick<
+    PDF417Options,
+    "rowHeight" | "quietH" | "quietV" | "characterEncoding" | "validation"
+  > {
+  /** Number of data columns (1-4); default the smallest symbol that holds the data */
+  columns?: number;
+  /** Code 128 emulation codeword in front of the data */
+  code128Emulation?: Code128Emulation;
+}
+
+/** Symbol size with its error correction codewords and first Row Address Patterns */
+export interface MicroPDF417Size {
+  cols: number;
+  rows: number;
+  ecc: number;
+  /** Left, centre and right Row Address Pattern of the first row (1-52) */
+  raps: [number, number, number];
+  /** The left Row Address Pattern is drawn (only CC-A with 3 columns leaves it out) */
+  leftRap: boolean;
+}
+
+export class MicroPDF417 extends PDF417 {
+  private static readonly DEFAULT_MICRO_ROWHEIGHT = 2; // 2X is the minimum row height
+
+  private static readonly STOP_BAR = "1";
+
+  // columns, rows, error correction codewords, left, centre and right RAP of the first row
+  private static readonly SIZES: MicroPDF417Size[] = [
+    [1, 11, 7, 1, 0, 9],
+    [1, 14, 7, 8, 0, 8],
+    [1, 17, 7, 36, 0, 36],
+    [1, 20, 8, 19, 0, 19],
+    [1, 24, 8, 9, 0, 17],
+    [1, 28, 8, 25, 0, 33],
+    [2, 8, 8, 1, 0, 1],
+    [2, 11, 9, 1, 0, 9],
+    [2, 14, 9, 8, 0, 8],
+    [2, 17, 10, 36, 0, 36],
+    [2, 20, 11, 19, 0, 19],
+    [2, 23, 13, 9, 0, 17],
+    [2, 26, 15, 27, 0, 35],
+    [3, 6, 12, 1, 1, 1],
+    [3, 8, 14, 7, 7, 7],
+    [3, 10, 16, 15, 15, 15],
+    [3, 12, 18, 25, 25, 25],
+    [3, 15, 21, 37, 37, 37],
+    [3, 20, 26, 1, 17, 33],
+    [3, 26, 32, 1, 9, 17],
+    [3, 32, 38, 21, 29, 37],
+    [3, 38, 44, 15, 31, 47],
+    [3, 44, 50, 1, 25, 49],
+    [4, 4, 8, 47, 19, 43],
+    [4, 6, 12, 1, 1, 1],
+    [4, 8, 14, 7, 7, 7],
+    [4, 10, 16, 15, 15, 15],
+    [4, 12, 18, 25, 25, 25],
+    [4, 15, 21, 37, 37, 37],
+    [4, 20, 26, 1, 17, 33],
+    [4, 26, 32, 1, 9, 17],
+    [4, 32, 38, 21, 29, 37],
+    [4, 38, 44, 15, 31, 47],
+    [4, 44, 50, 1, 25, 49],
+  ].map(([cols, rows, ecc, left, centre, right]) => ({
+    cols,
+    rows,
+    ecc,
+    raps: [left, centre, right],
+    leftRap: true,
+  }));
+
+  // 10-module Row Address Patterns 1-52 of the left and right sides
+  private static readonly SIDE_RAPS = [
+    0x322, 0x3a2, 0x3b2, 0x332, 0x372, 0x37a, 0x33a, 0x3ba, 0x39a, 0x3da, 0x3ca,
+    0x38a, 0x30a, 0x31a, 0x312, 0x392, 0x3d2, 0x3d6, 0x3d4, 0x394, 0x3b4, 0x3a4,
+    0x3a6, 0x3ae, 0x3ac, 0x3a8, 0x328, 0x32c, 0x32e, 0x326, 0x336, 0x3b6, 0x396,
+    0x316, 0x314, 0x334, 0x374, 0x364, 0x366, 0x36e, 0x36c, 0x368, 0x348, 0x358,
+    0x35c, 0x35e, 0x34e, 0x34c, 0x344, 0x346, 0x342, 0x362,
+  ];
+
+  // 10-module Row Address Patterns 1-52 between the data columns
+  private static readonly CENTRE_RAPS = [
+    0x2ce, 0x24e, 0x26e, 0x22e, 0x226, 0x236, 0x216, 0x212, 0x21a, 0x23a, 0x232,
+    0x222, 0x262, 0x272, 0x27a, 0x2fa, 0x2f2, 0x2f6, 0x276, 0x274, 0x264, 0x266,
+    0x246, 0x242, 0x2c2, 0x2e2, 0x2e6, 0x2e4, 0x2ec, 0x26c, 0x22c, 0x228, 0x268,
+    0x2e8, 0x2c8, 0x2cc, 0x2c4, 0x2c6, 0x286, 0x28e, 0x28c, 0x29c, 0x298, 0x2b8,
+    0x2b0, 0x290, 0x2d0, 0x250, 0x258, 0x25c, 0x2dc, 0x2de,
+  ];
+
+  // generator polynomial coefficients by number of error correction codewords
+  private static readonly RS_FACTOR_CACHE = new Map<number, number[]>();
+
+  private readonly columns: number;
+  private readonly code128Emulation: number;
+
+  constructor(options: MicroPDF417Options = {}) {
+    super({
+      rowHeight: options.rowHeight ?? MicroPDF417.DEFAULT_MICRO_ROWHEIGHT,
+      quietH: options.quietH,
+      quietV: options.quietV,
+      characterEncoding: options.characterEncoding,
+      validation: options.validation,
+    });
+    this.columns =
+      options.columns === undefined
+        ? 0 // automatic
+        : this.checkOption(
+            "columns",
+            options.columns,
+            [1, 4],
+            0,
+            this.options.validation === "lenient",
+          );
+    this.code128Emulation = options.code128Emulation ?? -1;
+  }
+
+  protected generateFromCodewords(
+    segmentCodewords: number[],
+    macroCodewords: number[] = [],
+  ): BarcodeData {
+    if (segmentCodewords.length === 0) throw new EmptyInputError();
+    let codewords = segmentCodewords;
+    if (this.code128Emulation >= 0) {
+      codewords = [
+        this.code128Emulation,
+        ...MicroPDF417.latchTextCompaction(codewords),
+      ];
+    }
+
+    const numcw = codewords.length + macroCodewords.length;
+    const size = this.getSymbolSize(numcw);
+    if (!size) {
+      const available = this.getMaxDataCodewords();
+      const largest = Math.max(
+        ...this.getSymbolSizes().map((s) => s.cols * s.rows - s.ecc),
+      );
+      if (this.columns !== 0 && numcw <= largest) {
+        // the data would fit with another number of columns
+        throw new DimensionConstraintError(
+          numcw,
+          available,
+          `columns = ${this.columns}`,
+        );
+      }
+      throw new CapacityExceededError(numcw, available);
+    }
+
+    // pad the data, then the Macro PDF417 control block (there is no symbol length descriptor)
+    const pad = size.cols * size.rows - size.ecc - numcw;
+    codewords = codewords.concat(Array(pad).fill(900), macroCodewords);
+    codewords = codewords.concat(
+      this.getErrorCorrection(codewords, MicroPDF417.getRSFactors(size.ecc)),
+    );
+
+    const quietH = "0".repeat(this.options.quietH);
+    const width = MicroPDF417.getRowWidth(size);
+    const symbol: BarcodeData = {
+      num_rows: size.rows * this.options.rowHeight + 2 * this.options.quietV,
+      num_cols: width + 2 * this.options.quietH,
+      bcode: [],
+    };
+
+    const empty_row = Array(symbol.num_cols).fill(0);
+    for (let i = 0; i < this.options.quietV; ++i) {
+      symbol.bcode.push([...empty_row]);
+    }
+
+    const [left, centre, right] = size.raps;
+    let k = 0; // codeword index
+    for (let r = 0; r < size.rows; ++r) {
+      // the cluster follows the left RAP: 0, 3, 6 for RAP 1, 2, 3, ...
+      const cluster = CLUSTERS[((r + left - 1) % 3) * 3];
+      const codeword = () => this.getCodewordPattern(cluster[codewords[k++]]);
+      const sideRap = (first: number) =>
+        MicroPDF417.getRapPattern(MicroPDF417.SIDE_RAPS, first + r);
+      const centreRap = () =>
+        MicroPDF417.getRapPattern(MicroPDF417.CENTRE_RAPS, centre + r);
+
+      let rowPatternStr = quietH + (size.leftRap ? sideRap(left) : "");
+      switch (size.cols) {
+        case 1:
+          rowPatternStr += codeword();
+          break;
+        case 2:
+          rowPatternStr += codeword() + codeword();
+          break;
+        case 3:
+          rowPatternStr += codeword() + centreRap() + codeword() + codeword();
+          break;
+        default:
+          rowPatternStr +=
+            codeword() + codeword() + centreRap() + codeword() + codeword();
+      }
+      rowPatternStr += sideRap(right) + MicroPDF417.STOP_BAR + quietH;
+
+      const arow = rowPatternStr.split("").map(Number);
+      // duplicate row to get the desired height
+      for (let h = 0; h < this.options.rowHeight; ++h) {
+        symbol.bcode.push([...arow]);
+      }
+    }
+
+    for (let i = 0; i < this.options.quietV; ++i) {
+      symbol.bcode.push([...empty_row]);
+    }
+    if (this.warnings.length > 0) symbol.warnings = [...this.warnings];
+    this.barcode_array = symbol;
+    return symbol;
+  }
+
+  /** MicroPDF417 asks for 1X */
+  protected getMinQuietZone(): number {
+    return 1;
+  }
+
+  protected getMaxDataCodewords(): number {
+    return Math.max(
+      ...this.getSymbolSizes()
+        .filter((size) => this.columns === 0 || size.cols === this.columns)
+        .map((size) => size.cols * size.rows - size.ecc),
+    );
+  }
+
+  /** Symbol sizes to choose from */
+  protected getSymbolSizes(): MicroPDF417Size[] {
+    return MicroPDF417.SIZES;
+  }
+
+  /** Smallest symbol (in modules) that holds numcw data codewords, or null */
+  private getSymbolSize(numcw: number): MicroPDF417Size | null {
+    let best: MicroPDF417Size | null = null;
+    for (const size of this.getSymbolSizes()) {
+      if (this.columns !== 0 && size.cols !== this.columns) continue;
+      if (size.cols * size.rows - size.ecc < numcw) continue;
+      const area = MicroPDF417.getRowWidth(size) * size.rows;
+      if (!best || area < MicroPDF417.getRowWidth(best) * best.rows) {
+        best = size;
+      }
+    }
+    return best;
+  }
+
+  /** Modules in a row: RAPs, 17-module codewords and the stop bar */
+  private static getRowWidth(size: MicroPDF417Size): number {
+    const raps = (size.cols < 3 ? 2 : 3) - (size.leftRap ? 0 : 1);
+    return raps * 10 + size.cols * 17 + MicroPDF417.STOP_BAR.length;
+  }
+
+  /** Bits of the Row Address Pattern number (counting from 1, wrapping after 52) */
+  private static getRapPattern(raps: number[], number: number): string {
+    return raps[(number - 1) % 52].toString(2).padStart(10, "0");
+  }
+
+  /**
+   * Make the Text Compaction latch explicit, after any ECI designator at
+   * the start, so that the data doesn't depend on the mode the Code 128
+   * emulation codeword leaves the decoder in.
+   */
+  private static latchTextCompaction(codewords: number[]): number[] {
+    let k = 0;
+    while (codewords[k] >= 925 && codewords[k] <= 927) {
+      k += codewords[k] === 926 ? 3 : 2;
+    }
+    if (codewords[k] >= 900) return codewords;
+    return [...codewords.slice(0, k), 900, ...codewords.slice(k)];
+  }
+
+  /** Coefficients of the generator polynomial (x - 3)(x - 3^2)...(x - 3^ecc) over GF(929) */
+  private static getRSFactors(ecc: number): number[] {
+    let factors = MicroPDF417.RS_FACTOR_CACHE.get(ecc);
+    if (!factors) {
+      factors = [1];
+      let root = 1;
+      for (let i = 0; i < ecc; ++i) {
+        root = (root * 3) % 929;
+        // multiply by (x - root), lowest degree first
+        const next = Array(factors.length + 1).fill(0);
+        factors.forEach((c, j) => {
+          next[j] = (next[j] + 929 - ((c * root) % 929)) % 929;
+          next[j + 1] = (next[j + 1] + c) % 929;
+        });
+        factors = next;
+      }
+      factors = factors.slice(0, ecc); // the leading coefficient is 1
+      MicroPDF417.RS_FACTOR_CACHE.set(ecc, factors);
+    }
+    return factors;
+  }
+}
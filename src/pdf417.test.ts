@@ -1,7 +1,50 @@
 import { describe, expect, it } from "vitest";
-import { PDF417 } from "./pdf417";
+import { type BarcodeData, PDF417, encodePDF417 } from "./pdf417";
+import { CLUSTERS } from "./pdf417_clusters";
+import {
+  CapacityExceededError,
+  DimensionConstraintError,
+  EmptyInputError,
+  InvalidOptionError,
+  UnencodableCharacterError,
+} from "./pdf417_errors";
+import { reassembleMacroPDF417 } from "./pdf417_macro";
 import { renderPDF417ToSVG } from "./svg";
 
+/**
+ * Read the codewords (symbol length descriptor first, error correction
+ * included) back out of a generated symbol with the default layout options.
+ */
+function readCodewords(
+  result: BarcodeData,
+  quietH = 2,
+  quietV = 2,
+  rowHeight = 3,
+): number[] {
+  const cols = (result.num_cols - 2 * quietH - 17 - 18 - 2 * 17) / 17;
+  const rows = (result.bcode.length - 2 * quietV) / rowHeight;
+  const codewords: number[] = [];
+  for (let r = 0; r < rows; r++) {
+    const row = result.bcode[quietV + r * rowHeight].join("");
+    const cluster = CLUSTERS[(r % 3) * 3];
+    for (let c = 0; c < cols; c++) {
+      const start = quietH + 17 + 17 + c * 17;
+      codewords.push(
+        cluster.indexOf(Number.parseInt(row.slice(start, start + 17), 2)),
+      );
+    }
+  }
+  return codewords;
+}
+
+/** Data codewords of a symbol, without the length descriptor, padding and error correction. */
+function readDataCodewords(result: BarcodeData): number[] {
+  const codewords = readCodewords(result);
+  const data = codewords.slice(1, codewords[0]);
+  while (data.length > 0 && data[data.length - 1] === 900) data.pop();
+  return data;
+}
+
 describe("PDF417", () => {
   it("should create a new instance with default options", () => {
     const pdf417 = new PDF417();
@@ -23,41 +66,48 @@ describe("PDF417", () => {
   it("should generate barcode data for a simple text", () => {
     const pdf417 = new PDF417();
     const result = pdf417.generate("Hello World");
-    expect(result).not.toBe(false);
-    if (result) {
-      expect(result).toHaveProperty("num_rows");
-      expect(result).toHaveProperty("num_cols");
-      expect(result).toHaveProperty("bcode");
-      expect(Array.isArray(result.bcode)).toBe(true);
-    }
+    expect(result).toHaveProperty("num_rows");
+    expect(result).toHaveProperty("num_cols");
+    expect(result).toHaveProperty("bcode");
+    expect(Array.isArray(result.bcode)).toBe(true);
   });
 
-  it("should return false for empty input", () => {
+  it("should leave earlier results as they were", () => {
     const pdf417 = new PDF417();
-    const result = pdf417.generate("");
-    expect(result).toBe(false);
+    const first = pdf417.generate("first");
+    const copy = structuredClone(first);
+    const second = pdf417.generate("a second, longer message");
+    expect(second).not.toBe(first);
+    expect(first).toEqual(copy);
+    expect(pdf417.getBarcodeArray()).toBe(second);
+  });
+
+  it("should encode with a function as with an instance", () => {
+    expect(encodePDF417("Hello World", { compact: true })).toEqual(
+      new PDF417({ compact: true }).generate("Hello World"),
+    );
+    expect(() => encodePDF417("")).toThrow(EmptyInputError);
+  });
+
+  it("should throw for empty input", () => {
+    const pdf417 = new PDF417();
+    expect(() => pdf417.generate("")).toThrow(EmptyInputError);
   });
 
   it("should handle special characters", () => {
     const pdf417 = new PDF417();
     const result = pdf417.generate("Hello! @#$%^&*()");
-    expect(result).not.toBe(false);
-    if (result) {
-      expect(result).toHaveProperty("bcode");
-      expect(Array.isArray(result.bcode)).toBe(true);
-    }
+    expect(result).toHaveProperty("bcode");
+    expect(Array.isArray(result.bcode)).toBe(true);
   });
 
   it("should handle long text input", () => {
     const pdf417 = new PDF417();
     const longText = "A".repeat(1000);
     const result = pdf417.generate(longText);
-    expect(result).not.toBe(false);
-    if (result) {
-      expect(result).toHaveProperty("bcode");
-      expect(Array.isArray(result.bcode)).toBe(true);
-      expect(result.bcode.length).toBeGreaterThan(0);
-    }
+    expect(result).toHaveProperty("bcode");
+    expect(Array.isArray(result.bcode)).toBe(true);
+    expect(result.bcode.length).toBeGreaterThan(0);
   });
 
   it("should handle different error correction levels", () => {
@@ -67,11 +117,8 @@ describe("PDF417", () => {
     for (const level of levels) {
       const pdf417 = new PDF417({ errorCorrectionLevel: level });
       const result = pdf417.generate(text);
-      expect(result).not.toBe(false);
-      if (result) {
-        expect(result).toHaveProperty("bcode");
-        expect(Array.isArray(result.bcode)).toBe(true);
-      }
+      expect(result).toHaveProperty("bcode");
+      expect(Array.isArray(result.bcode)).toBe(true);
     }
   });
 
@@ -79,52 +126,580 @@ describe("PDF417", () => {
     const pdf417 = new PDF417();
     const numericData = "1234567890";
     const result = pdf417.generate(numericData);
-    expect(result).not.toBe(false);
-    if (result) {
-      expect(result).toHaveProperty("bcode");
-      expect(Array.isArray(result.bcode)).toBe(true);
+    expect(result).toHaveProperty("bcode");
+    expect(Array.isArray(result.bcode)).toBe(true);
+  });
+
+  it("should reject options out of range", () => {
+    for (const [option, value] of [
+      ["errorCorrectionLevel", 9],
+      ["errorCorrectionLevel", 2.5],
+      ["aspectRatio", 0],
+      ["rowHeight", 0],
+      ["quietH", 0],
+      ["quietV", 1],
+    ] as const) {
+      expect(() => new PDF417({ [option]: value })).toThrow(
+        expect.objectContaining({ code: "INVALID_OPTION", option, value }),
+      );
     }
   });
 
-  it("should handle invalid options gracefully", () => {
-    const invalidOptions = {
+  it("should clamp options out of range in lenient mode", () => {
+    const pdf417 = new PDF417({
       errorCorrectionLevel: 9,
-      aspectRatio: 0.5,
-      rowHeight: 1,
+      aspectRatio: -1,
+      rowHeight: 0,
       quietH: 0,
-      quietV: 0,
-    };
-    const pdf417 = new PDF417(invalidOptions);
+      quietV: Number.NaN,
+      validation: "lenient",
+    });
     const result = pdf417.generate("Test");
-    expect(result).not.toBe(false);
-    if (result) {
-      expect(result).toHaveProperty("bcode");
-      expect(Array.isArray(result.bcode)).toBe(true);
-    }
+    const clamped = new PDF417({ errorCorrectionLevel: 8, rowHeight: 1 });
+    expect(result).toEqual({
+      ...clamped.generate("Test"),
+      warnings: [
+        "errorCorrectionLevel: 9 is not an integer from -1 to 8, 8 is used",
+        "aspectRatio: -1 is not greater than 0, 2 is used",
+        "rowHeight: 0 is not an integer of at least 1, 1 is used",
+        "quietH: 0 is not an integer of at least 2, 2 is used",
+        "quietV: NaN is not an integer of at least 2, 2 is used",
+      ],
+    });
+    expect(new PDF417().generate("Test").warnings).toBeUndefined();
   });
 
   it("should handle mixed content (numbers, letters, special characters)", () => {
     const pdf417 = new PDF417();
     const mixedContent = "ABC123!@#$%^&*()_+";
     const result = pdf417.generate(mixedContent);
-    expect(result).not.toBe(false);
-    if (result) {
-      expect(result).toHaveProperty("bcode");
-      expect(Array.isArray(result.bcode)).toBe(true);
+    expect(result).toHaveProperty("bcode");
+    expect(Array.isArray(result.bcode)).toBe(true);
+  });
+
+  it("should leave out the right row indicator in Compact PDF417", () => {
+    const standard = new PDF417().generate("Compact PDF417");
+    const compact = new PDF417({ compact: true }).generate("Compact PDF417");
+    // quiet zones, start pattern, left row indicator, data and stop bar
+    const cols = (compact.num_cols - 2 * 2 - 17 - 17 - 1) / 17;
+    expect(Number.isInteger(cols)).toBe(true);
+    const codewords: number[] = [];
+    for (let r = 2; r < compact.bcode.length - 2; r += 3) {
+      const row = compact.bcode[r].join("");
+      // stop bar, then the quiet zone
+      expect(row.endsWith("100")).toBe(true);
+      const cluster = CLUSTERS[(((r - 2) / 3) % 3) * 3];
+      for (let c = 0; c < cols; c++) {
+        const start = 2 + 17 + 17 + c * 17;
+        codewords.push(
+          cluster.indexOf(Number.parseInt(row.slice(start, start + 17), 2)),
+        );
+      }
+    }
+    const data = codewords.slice(1, codewords[0]);
+    while (data[data.length - 1] === 900) data.pop();
+    expect(data).toEqual(readDataCodewords(standard));
+  });
+
+  it("should switch text sub-modes for lower case and punctuation", () => {
+    const pdf417 = new PDF417();
+    const result = pdf417.generate("Hello World");
+    // H ll e l l o sp as W o r l d ps(pad)
+    expect(readDataCodewords(result)).toEqual([
+      7 * 30 + 27,
+      4 * 30 + 11,
+      11 * 30 + 14,
+      26 * 30 + 27,
+      22 * 30 + 14,
+      17 * 30 + 11,
+      3 * 30 + 29,
+    ]);
+  });
+
+  it("should use a punctuation shift for a single punctuation character", () => {
+    const pdf417 = new PDF417();
+    const result = pdf417.generate("ABC;DEF");
+    // A B C ps ; D E F
+    expect(readDataCodewords(result)).toEqual([
+      0 * 30 + 1,
+      2 * 30 + 29,
+      0 * 30 + 3,
+      4 * 30 + 5,
+    ]);
+  });
+
+  it("should pack 6-byte groups into 5 codewords with latch 924", () => {
+    const pdf417 = new PDF417();
+    const result = pdf417.generate("\xff\xfe\xfd\xfc\xfb\xfa");
+    expect(readDataCodewords(result)).toEqual([924, 429, 5, 127, 134, 690]);
+  });
+
+  it("should encode trailing bytes one per codeword with latch 901", () => {
+    const pdf417 = new PDF417();
+    const result = pdf417.generate("\xff\xfe\xfd\xfc\xfb\xfa\x01");
+    expect(readDataCodewords(result)).toEqual([901, 429, 5, 127, 134, 690, 1]);
+  });
+
+  it("should encode a Uint8Array byte for byte", () => {
+    const pdf417 = new PDF417();
+    const bytes = new Uint8Array([0xff, 0xfe, 0xfd, 0xfc, 0xfb, 0xfa, 0x01]);
+    const result = pdf417.generate(bytes);
+    expect(readDataCodewords(result)).toEqual([901, 429, 5, 127, 134, 690, 1]);
+  });
+
+  it("should encode an ArrayBuffer the same way as the equivalent string", () => {
+    const data = "\x00\x01binary\x80payload 12345678901234567890";
+    const bytes = Uint8Array.from(data, (c) => c.charCodeAt(0));
+    const fromString = new PDF417().generate(data);
+    const fromBuffer = new PDF417().generate(bytes.buffer);
+    expect(fromBuffer).toEqual(fromString);
+  });
+
+  it("should throw for empty binary input", () => {
+    const pdf417 = new PDF417();
+    expect(() => pdf417.generate(new Uint8Array(0))).toThrow(EmptyInputError);
+  });
+
+  it("should encode non Latin-1 text as UTF-8 with ECI 000026", () => {
+    const pdf417 = new PDF417();
+    const result = pdf417.generate("日本");
+    // E6 97 A5 E6 9C AC
+    expect(readDataCodewords(result)).toEqual([
+      927, 26, 924, 386, 390, 108, 360, 204,
+    ]);
+  });
+
+  it("should not add an ECI designator for Latin-1 text in auto mode", () => {
+    const pdf417 = new PDF417();
+    const result = pdf417.generate("café");
+    expect(readDataCodewords(result)[0]).not.toBe(927);
+  });
+
+  it("should always use UTF-8 with characterEncoding 'utf8'", () => {
+    const pdf417 = new PDF417({ characterEncoding: "utf8" });
+    const result = pdf417.generate("café");
+    // ll c a f as text, C3 A9 as bytes
+    expect(readDataCodewords(result)).toEqual([
+      927,
+      26,
+      27 * 30 + 2,
+      0 * 30 + 5,
+      901,
+      195,
+      169,
+    ]);
+  });
+
+  it("should encode Shift_JIS with ECI 000020 with characterEncoding 'shift_jis'", () => {
+    const pdf417 = new PDF417({ characterEncoding: "shift_jis" });
+    const result = pdf417.generate("日本");
+    // 93 FA 96 7B
+    expect(readDataCodewords(result)).toEqual([
+      927, 20, 901, 147, 250, 150, 123,
+    ]);
+  });
+
+  it("should throw for non Latin-1 text with characterEncoding 'latin1'", () => {
+    const pdf417 = new PDF417({ characterEncoding: "latin1" });
+    expect(() => pdf417.generate("AB日本")).toThrow(
+      new UnencodableCharacterError(2, "日", "Latin-1"),
+    );
+  });
+
+  it("should designate the ECI of each segment", () => {
+    const pdf417 = new PDF417();
+    const result = pdf417.generate([
+      { data: "Hello" },
+      { data: "Привет", eci: 22 },
+      { data: "Hello" },
+    ]);
+    // Latin-1 is designated again (ECI 000003) after the Windows-1251 segment
+    expect(readDataCodewords(result)).toEqual([
+      237, 131, 344, 927, 22, 924, 348, 426, 311, 416, 386, 927, 3, 900, 237,
+      131, 344,
+    ]);
+  });
+
+  it("should designate ECIs above 899 for binary segments", () => {
+    const pdf417 = new PDF417();
+    const result = pdf417.generate([
+      { data: new Uint8Array([1, 2, 3]), eci: 123456 },
+      { data: new Uint8Array([1, 2, 3]), eci: 811000 },
+    ]);
+    expect(readDataCodewords(result)).toEqual([
+      926, 136, 156, 901, 1, 2, 3, 925, 100, 901, 1, 2, 3,
+    ]);
+  });
+
+  it("should throw when a segment can't be converted to its ECI", () => {
+    const pdf417 = new PDF417();
+    expect(() => pdf417.generate([{ data: "Ελληνικά", eci: 7 }])).toThrow(
+      UnencodableCharacterError,
+    );
+    expect(() => pdf417.generate([{ data: "text", eci: 123456 }])).toThrow(
+      InvalidOptionError,
+    );
+    expect(() => pdf417.generate([{ data: "text", eci: -1 }])).toThrow(
+      InvalidOptionError,
+    );
+  });
+});
+
+describe("Mode segmentation", () => {
+  it("should keep short digit runs in Text Compaction", () => {
+    const result = new PDF417().generate("ABC12345DEF");
+    // A B C ml 1 2 3 4 5 al D E F ps(pad)
+    expect(readDataCodewords(result)).toEqual([
+      1,
+      2 * 30 + 28,
+      1 * 30 + 2,
+      3 * 30 + 4,
+      5 * 30 + 28,
+      3 * 30 + 4,
+      5 * 30 + 29,
+    ]);
+  });
+
+  it("should use Numeric Compaction when it saves codewords", () => {
+    const result = new PDF417().generate(
+      "ABC123456789012345678901234567890DEF",
+    );
+    // "1" followed by the digits in base 900
+    expect(readDataCodewords(result)).toEqual([
+      1,
+      2 * 30 + 29,
+      902,
+      3,
+      199,
+      754,
+      458,
+      122,
+      321,
+      197,
+      493,
+      169,
+      753,
+      190,
+      900,
+      3 * 30 + 4,
+      5 * 30 + 29,
+    ]);
+  });
+
+  it("should shift single bytes out of Text Compaction with 913", () => {
+    const result = new PDF417().generate("ABCD\x01EFGH");
+    expect(readDataCodewords(result)).toEqual([
+      1,
+      2 * 30 + 3,
+      913,
+      1,
+      4 * 30 + 5,
+      6 * 30 + 7,
+    ]);
+  });
+
+  it("should never use more codewords than a single mode", () => {
+    const pdf417 = new PDF417();
+    const samples = [
+      "Hello World",
+      "ORDER#4711/2024-05-01 qty:12 price:$19.99",
+      "\x00\x01\x02text\xffmore text 1234567890123456",
+      "ab1cd2ef3gh4ij5kl6",
+    ];
+    for (const sample of samples) {
+      const result = pdf417.generate(sample);
+      const bytes = sample.length;
+      const byteOnly = 1 + Math.floor(bytes / 6) * 5 + (bytes % 6);
+      expect(readDataCodewords(result).length).toBeLessThanOrEqual(byteOnly);
     }
   });
 });
 
+describe("Explicit segments", () => {
+  it("should encode every segment in its own compaction mode", () => {
+    const result = new PDF417().generateSegments([
+      { mode: "text", data: "AB" },
+      { mode: "byte", data: "CD" },
+      { mode: "numeric", data: "123" },
+      { mode: "text", data: "12" },
+    ]);
+    expect(readDataCodewords(result)).toEqual([
+      0 * 30 + 1,
+      901,
+      67,
+      68,
+      902,
+      1,
+      223,
+      900,
+      28 * 30 + 1,
+      2 * 30 + 29,
+    ]);
+  });
+
+  it("should designate the ECI of a segment", () => {
+    const result = new PDF417().generateSegments([
+      { mode: "byte", data: "日本", eci: 26 },
+    ]);
+    expect(readDataCodewords(result)).toEqual([
+      927, 26, 924, 386, 390, 108, 360, 204,
+    ]);
+  });
+
+  it("should throw for non-digits in a numeric segment", () => {
+    const pdf417 = new PDF417();
+    expect(() =>
+      pdf417.generateSegments([{ mode: "numeric", data: "12a" }]),
+    ).toThrow(new UnencodableCharacterError(2, "a", "Numeric Compaction"));
+    expect(() =>
+      pdf417.generateSegments([{ mode: "numeric", data: "１２" }]),
+    ).toThrow(UnencodableCharacterError);
+  });
+});
+
+describe("Macro PDF417", () => {
+  /** Data codewords and control block of a Macro PDF417 symbol. */
+  function readMacroCodewords(result: BarcodeData) {
+    const codewords = readCodewords(result);
+    const data = codewords.slice(1, codewords[0]);
+    const block = data.lastIndexOf(928);
+    const payload = data.slice(0, block);
+    while (payload.length > 0 && payload[payload.length - 1] === 900) {
+      payload.pop();
+    }
+    return { payload, block: data.slice(block) };
+  }
+
+  it("should end the data with the control block", () => {
+    const symbols = new PDF417().generateMacro("ABC", {
+      fileId: [17, 42],
+      fileName: "A",
+      timestamp: new Date(1000),
+      checksum: true,
+    });
+    expect(symbols).toHaveLength(1);
+    const { payload, block } = readMacroCodewords(symbols[0]);
+    expect(payload).toEqual([0 * 30 + 1, 2 * 30 + 29]);
+    expect(block).toEqual([
+      928,
+      111,
+      100, // segment index 00000
+      17,
+      42, // file ID
+      923,
+      0,
+      0 * 30 + 29, // file name
+      923,
+      1,
+      11, // segment count
+      923,
+      2,
+      11, // time stamp
+      923,
+      6,
+      180,
+      728, // CRC-16 62728
+      922,
+    ]);
+  });
+
+  it("should split data across symbols", () => {
+    const data = "Lorem ipsum dolor sit amet. ".repeat(40);
+    const symbols = new PDF417().generateMacro(data, { maxCodewords: 100 });
+    expect(symbols.length).toBeGreaterThan(1);
+    const blocks = symbols.map((symbol) => {
+      const { payload, block } = readMacroCodewords(symbol);
+      expect(payload.length + block.length).toBeLessThanOrEqual(100);
+      return block;
+    });
+    blocks.forEach((block, i) => {
+      // segment index "1" + 5 digits in base 900, then the same file ID
+      expect(block[1] * 900 + block[2]).toBe(100000 + i);
+      expect(block.slice(3, 5)).toEqual(blocks[0].slice(3, 5));
+      expect(block[block.length - 1] === 922).toBe(i === blocks.length - 1);
+    });
+  });
+
+  it("should be put back together from the symbols", () => {
+    const data = "Lorem ipsum dolor sit amet, 12345678901234567890. ".repeat(
+      30,
+    );
+    const symbols = new PDF417().generateMacro(data, {
+      maxCodewords: 200,
+      checksum: true,
+    });
+    const file = reassembleMacroPDF417(
+      symbols.map((symbol) => readCodewords(symbol)).reverse(),
+    );
+    expect(file.complete).toBe(true);
+    expect(file.segmentCount).toBe(symbols.length);
+    expect(new TextDecoder("latin1").decode(file.data ?? undefined)).toBe(data);
+  });
+
+  it("should throw for invalid control block options", () => {
+    const pdf417 = new PDF417();
+    for (const [option, value] of [
+      ["fileId", [900]],
+      ["fileName", "日本"],
+      ["maxCodewords", 926],
+      ["maxCodewords", 8],
+    ] as const) {
+      expect(() => pdf417.generateMacro("ABC", { [option]: value })).toThrow(
+        expect.objectContaining({ code: "INVALID_OPTION", option, value }),
+      );
+    }
+    expect(() => pdf417.generateMacro("")).toThrow(EmptyInputError);
+  });
+});
+
 describe("SVG rendering", () => {
   it("should generate SVG from PDF417 bcode", () => {
     const pdf417 = new PDF417();
     const result = pdf417.generate("test svg");
-    expect(result).not.toBe(false);
-    if (result) {
-      const svg = renderPDF417ToSVG(result.bcode);
-      expect(svg.startsWith("<svg")).toBe(true);
-      expect(svg.includes("<rect")).toBe(true);
-      expect(svg.includes('fill="black"')).toBe(true);
+    const svg = renderPDF417ToSVG(result.bcode);
+    expect(svg.startsWith("<svg")).toBe(true);
+    expect(svg.includes("<rect")).toBe(true);
+    expect(svg.includes('fill="black"')).toBe(true);
+  });
+});
+
+describe("Dimensions", () => {
+  /** Data columns and rows of a symbol with the default layout options */
+  const getDimensions = (result: BarcodeData) => [
+    (result.num_cols - 2 * 2 - 17 - 18 - 2 * 17) / 17,
+    (result.num_rows - 2 * 2) / 3,
+  ];
+  const text = "The quick brown fox jumps over the lazy dog. ".repeat(4);
+
+  it("should keep to the columns and rows given", () => {
+    expect(getDimensions(new PDF417({ columns: 5 }).generate(text))).toEqual([
+      5, 23,
+    ]);
+    expect(getDimensions(new PDF417({ rows: 10 }).generate(text))).toEqual([
+      12, 10,
+    ]);
+    const result = new PDF417({ columns: 12, rows: 40 }).generate(text);
+    expect(getDimensions(result)).toEqual([12, 40]);
+    // the padding goes before the error correction
+    expect(readCodewords(result)[0]).toBe(12 * 40 - 16);
+  });
+
+  it("should keep within the minimum and maximum", () => {
+    const [cols, rows] = getDimensions(
+      new PDF417({ maxColumns: 3, minRows: 50 }).generate(text),
+    );
+    expect(cols).toBeLessThanOrEqual(3);
+    expect(rows).toBeGreaterThanOrEqual(50);
+    expect(
+      getDimensions(
+        new PDF417({ minColumns: 20, maxRows: 4 }).generate("Hello"),
+      ),
+    ).toEqual([20, 3]);
+  });
+
+  it("should lower the error correction to fit", () => {
+    // 94 data codewords take ECL 3 (16 codewords), but only 8 fit
+    const codewords = readCodewords(
+      new PDF417({ columns: 3, rows: 35 }).generate(text),
+    );
+    expect(codewords).toHaveLength(105);
+    expect(codewords.length - codewords[0]).toBe(8);
+  });
+
+  it("should choose a shape close to the aspect ratio with little padding", () => {
+    for (const length of [10, 200, 600, 1200]) {
+      const data = Uint8Array.from({ length }, (_, i) => 65 + (i % 26));
+      for (const aspectRatio of [2, 5]) {
+        const result = new PDF417({ aspectRatio }).generate(data);
+        const [cols] = getDimensions(result);
+        const ratio = (result.num_cols - 4) / (result.num_rows - 4);
+        expect(ratio / aspectRatio).toBeGreaterThan(0.75);
+        expect(ratio / aspectRatio).toBeLessThan(1.5);
+        // no row of padding only
+        const codewords = readDataCodewords(result);
+        expect(readCodewords(result)[0] - 1 - codewords.length).toBeLessThan(
+          cols,
+        );
+      }
     }
   });
+
+  it("should spend the padding on error correction", () => {
+    const options = { columns: 12, rows: 40 };
+    const standard = new PDF417(options).generate(text);
+    const maximized = new PDF417({
+      ...options,
+      eclStrategy: "maximize",
+    }).generate(text);
+    expect(maximized.bcode.length).toBe(standard.bcode.length);
+    expect(maximized.num_cols).toBe(standard.num_cols);
+    expect(readDataCodewords(maximized)).toEqual(readDataCodewords(standard));
+    // ECL 7: 94 data codewords, the length descriptor and 256 for error correction
+    const codewords = readCodewords(maximized);
+    expect(codewords.length - codewords[0]).toBe(256);
+    expect(codewords.slice(95, codewords[0])).toEqual(Array(129).fill(900));
+    // no room to raise it
+    const full = new PDF417({ columns: 3, rows: 35, eclStrategy: "maximize" });
+    expect(full.generate(text)).toEqual(
+      new PDF417({ columns: 3, rows: 35 }).generate(text),
+    );
+  });
+
+  it("should throw when the data doesn't fit", () => {
+    expect(() => new PDF417({ columns: 2, maxRows: 5 }).generate(text)).toThrow(
+      new DimensionConstraintError(94, 7, "columns = 2, rows 3-5"),
+    );
+    const result = new PDF417({ columns: 2, maxRows: 5 }).tryGenerate(text);
+    expect(result.ok || result.error.code).toBe("DIMENSION_CONSTRAINT");
+  });
+
+  it("should reject invalid dimensions", () => {
+    expect(() => new PDF417({ columns: 31 })).toThrow(
+      "PDF417 Error: columns: must be an integer from 1 to 30.",
+    );
+    expect(() => new PDF417({ minRows: 10, maxRows: 5 })).toThrow(
+      "PDF417 Error: maxRows: must be at least minRows (10).",
+    );
+    expect(() => new PDF417({ columns: 4, maxColumns: 6 })).toThrow(
+      "PDF417 Error: maxColumns: can't be combined with columns.",
+    );
+  });
+});
+
+describe("Errors", () => {
+  it("should tell how many codewords the data needs", () => {
+    const pdf417 = new PDF417();
+    const data = new Uint8Array(1200);
+    expect(() => pdf417.generate(data)).toThrow(CapacityExceededError);
+    const result = pdf417.tryGenerate(data);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toBeInstanceOf(CapacityExceededError);
+      expect(result.error).toMatchObject({
+        code: "CAPACITY_EXCEEDED",
+        required: 1001, // 901, then 5 codewords per 6 bytes
+        available: 925,
+      });
+    }
+  });
+
+  it("should reject data too long for any mode before compaction", () => {
+    // even Numeric Compaction needs 15 codewords for 44 characters
+    expect(() => new PDF417().generate("x".repeat(20000))).toThrow(
+      new CapacityExceededError(6819, 925),
+    );
+  });
+
+  it("should return the symbol or the error without throwing", () => {
+    const pdf417 = new PDF417();
+    const result = pdf417.tryGenerate("Hello World");
+    expect(result).toEqual({
+      ok: true,
+      symbol: pdf417.generate("Hello World"),
+    });
+    expect(pdf417.tryGenerate("")).toEqual({
+      ok: false,
+      error: new EmptyInputError(),
+    });
+  });
 });
@@ -5,7 +5,34 @@
  * Ported from PHP - PDF417 class, version 1.0.005, from TCPDF library (http://www.tcpdf.org/)
  */
 
+import { compressPayload } from "./deflate";
 import { CLUSTERS } from "./pdf417_clusters"; // clusters.tsからCLUSTERSをインポート
+import { MAX_ECI, getCharacterSet, getEciDesignator } from "./pdf417_eci";
+import {
+  CapacityExceededError,
+  DimensionConstraintError,
+  EmptyInputError,
+  InvalidOptionError,
+  PDF417Error,
+  UnencodableCharacterError,
+} from "./pdf417_errors";
+import {
+  MACRO_CONTROL_BLOCK,
+  MACRO_FIELDS,
+  MACRO_OPTIONAL_FIELD,
+  MACRO_TERMINATOR,
+  MAX_MACRO_SEGMENT_INDEX,
+  getMacroChecksum,
+} from "./pdf417_macro";
+
+/**
+ * How string input is turned into bytes:
+ * - latin1: one byte per character (characters must be in U+0000-U+00FF)
+ * - utf8: UTF-8 bytes, preceded by the ECI 000026 designator
+ * - shift_jis: Shift_JIS bytes, preceded by the ECI 000020 designator
+ * - auto: latin1 when possible, otherwise utf8
+ */
+export type CharacterEncoding = "latin1" | "utf8" | "shift_jis" | "auto";
 
 export interface PDF417Options {
   /** Error correction level (0-8); default -1 = automatic correction level */
@@ -18,12 +45,106 @@ export interface PDF417Options {
   quietH?: number;
   /** Height of the quiet zone in 'pixels' */
   quietV?: number;
+  /** Character encoding of string input; default 'auto' */
+  characterEncoding?: CharacterEncoding;
+  /** Compact PDF417: no right row indicator and a one-module stop bar; default false */
+  compact?: boolean;
+  /**
+   * Compress string or binary data passed to generate: 'deflate' encodes the
+   * output of compressPayload (strings as UTF-8) with Byte Compaction;
+   * default 'none'
+   */
+  compress?: "none" | "deflate";
+  /**
+   * 'maximize' raises the error correction level as far as the size of the
+   * symbol allows, instead of filling it with padding; default 'default',
+   * the level of errorCorrectionLevel
+   */
+  eclStrategy?: "default" | "maximize";
+  /** Number of data columns (1-30); default chosen from the aspect ratio */
+  columns?: number;
+  /** Number of rows (3-90); default as few as the data needs */
+  rows?: number;
+  /** Fewest data columns (1-30); default 1 */
+  minColumns?: number;
+  /** Most data columns (1-30); default 30 */
+  maxColumns?: number;
+  /** Fewest rows (3-90); default 3 */
+  minRows?: number;
+  /** Most rows (3-90); default 90 */
+  maxRows?: number;
+  /**
+   * What to do with numeric options out of range: 'strict' throws an
+   * InvalidOptionError, 'lenient' clamps them and lists a warning on every
+   * symbol; default 'strict'
+   */
+  validation?: "strict" | "lenient";
+}
+
+/** Part of the data with its own Extended Channel Interpretation */
+export interface EciSegment {
+  /** Segment data; a string is converted with the character set of the ECI */
+  data: string | Uint8Array | ArrayBuffer;
+  /** ECI assignment number (0-811799); strings without one follow characterEncoding */
+  eci?: number;
+}
+
+/** Compaction mode of an explicit segment */
+export type CompactionMode = "text" | "byte" | "numeric";
+
+/** Part of the data encoded in a fixed compaction mode */
+export interface CompactionSegment extends EciSegment {
+  /** Compaction mode; 'numeric' data may only contain the digits 0-9 */
+  mode: CompactionMode;
+}
+
+/** Control block contents of a Macro PDF417 set */
+export interface MacroPDF417Options {
+  /** File ID codewords (0-899) shared by every symbol; default derived from the checksum */
+  fileId?: number[];
+  /** File name (Latin-1) */
+  fileName?: string;
+  /** Include the number of symbols; default true */
+  segmentCount?: boolean;
+  /** Time stamp, a Date or seconds since 1970-01-01 UTC */
+  timestamp?: Date | number;
+  /** Sender (Latin-1) */
+  sender?: string;
+  /** Addressee (Latin-1) */
+  addressee?: string;
+  /** Include the size of the file in bytes; default false */
+  fileSize?: boolean;
+  /** Include the CRC-16 checksum of the file; default false */
+  checksum?: boolean;
+  /** Data codewords per symbol, control block included (at most 925); default 925 */
+  maxCodewords?: number;
 }
 
 export interface BarcodeData {
   num_rows: number;
   num_cols: number;
   bcode: number[][];
+  /** Options clamped in lenient validation mode */
+  warnings?: string[];
+}
+
+/** A generated symbol: its size in modules and a row of modules (1 = bar) per line */
+export type PDF417Symbol = BarcodeData;
+
+/** The symbol, or the reason it couldn't be generated */
+export type PDF417Result<T extends BarcodeData = PDF417Symbol> =
+  | { ok: true; symbol: T }
+  | { ok: false; error: PDF417Error };
+
+/**
+ * Encode the data as a new PDF417 symbol. Nothing is kept between calls.
+ * Throws a PDF417Error if the data can't be encoded.
+ */
+export function encodePDF417(
+  data: string | Uint8Array | ArrayBuffer | EciSegment[],
+  options: PDF417Options = {},
+): PDF417Symbol {
+  return new PDF417(options).generate(data);
 }
 
 export class PDF417 {
@@ -32,9 +153,23 @@ export class PDF417 {
   private static readonly DEFAULT_QUIETV = 2;
   private static readonly DEFAULT_ASPECT_RATIO = 2;
   private static readonly DEFAULT_ECL = -1; // Automatic
+  private static readonly DEFAULT_CHARACTER_ENCODING: CharacterEncoding =
+    "auto";
+
+  private static readonly ECI_LATIN1 = 3; // ECI 000003: ISO-8859-1
+  private static readonly ECI_SHIFT_JIS = 20; // ECI 000020: Shift_JIS
+  private static readonly ECI_UTF8 = 26; // ECI 000026: UTF-8
+
+  // mode latch codewords of the explicit compaction modes
+  private static readonly COMPACTION_MODES: Record<CompactionMode, number> = {
+    text: 900,
+    byte: 901,
+    numeric: 902,
+  };
 
   private static readonly START_PATTERN = "11111111010101000";
   private static readonly STOP_PATTERN = "111111101000101001";
+  private static readonly COMPACT_STOP_PATTERN = "1"; // Compact PDF417 stop bar
 
   private static readonly TEXT_SUBMODES_MAP = new Map([
     [
@@ -71,6 +206,14 @@ export class PDF417 {
     ],
   ]);
 
+  // sub-mode names in sub-mode index order (0: alpha, 1: lower, 2: mixed, 3: punctuation)
+  private static readonly TEXT_SUBMODES = [
+    "alpha",
+    "lower",
+    "mixed",
+    "punctuation",
+  ] as const;
+
   private static readonly TEXT_LATCH_MAP = new Map([
     ["01", [27]],
     ["02", [28]],
@@ -86,6 +229,35 @@ export class PDF417 {
     ["32", [29, 28]],
   ]);
 
+  // Text Compaction value of each ASCII character in each sub-mode, -1 = not in the sub-mode
+  private static readonly TEXT_VALUES: Int8Array[] = PDF417.TEXT_SUBMODES.map(
+    (name) => {
+      const values = new Int8Array(128).fill(-1);
+      PDF417.TEXT_SUBMODES_MAP.get(name)?.forEach((chval, k) => {
+        // entries from 0x80 up stand for the latch and shift values
+        if (chval < 0x80) values[chval] = k;
+      });
+      return values;
+    },
+  );
+
+  // shortest latch sequences between Text Compaction states (sub-mode * 2 + parity of the value count)
+  private static readonly TEXT_LATCH_PATHS: (number[] | null)[][] =
+    PDF417.getTextLatchPaths();
+
+  // number of Numeric Compaction codewords for a group of 0 to 44 digits
+  private static readonly NUMERIC_LENGTHS: number[] = Array.from(
+    { length: 45 },
+    (_, digits) => {
+      // the group is the base 900 form of "1" followed by the digits
+      let length = 0;
+      for (let t = 10n ** BigInt(digits); digits > 0 && t > 0n; t /= 900n) {
+        ++length;
+      }
+      return length;
+    },
+  );
+
   private static readonly CLUSTERS = CLUSTERS;
 
   private static readonly RS_FACTORS: number[][] = [
@@ -210,16 +382,86 @@ export class PDF417 {
     ], // ECL 8 (512 factors)
   ];
 
-  private readonly options: Required<PDF417Options>;
-  private barcode_array: BarcodeData;
+  /** The options with defaults; columns and rows are folded into their bounds */
+  protected readonly options: Required<Omit<PDF417Options, "columns" | "rows">>;
+  protected barcode_array: BarcodeData;
+  /** Options clamped in lenient validation mode, listed on every symbol */
+  protected readonly warnings: string[] = [];
 
   constructor(options: PDF417Options = {}) {
+    const validation = options.validation ?? "strict";
+    if (validation !== "strict" && validation !== "lenient") {
+      throw new InvalidOptionError(
+        "validation",
+        validation,
+        "must be strict or lenient",
+      );
+    }
+    const eclStrategy = options.eclStrategy ?? "default";
+    if (eclStrategy !== "default" && eclStrategy !== "maximize") {
+      throw new InvalidOptionError(
+        "eclStrategy",
+        eclStrategy,
+        "must be default or maximize",
+      );
+    }
+    const lenient = validation === "lenient";
+    const minQuiet = this.getMinQuietZone();
+    const [minColumns, maxColumns] = this.checkDimension(
+      "columns",
+      options,
+      [1, 30],
+      lenient,
+    );
+    const [minRows, maxRows] = this.checkDimension(
+      "rows",
+      options,
+      [3, 90],
+      lenient,
+    );
     this.options = {
-      errorCorrectionLevel: options.errorCorrectionLevel ?? PDF417.DEFAULT_ECL,
-      aspectRatio: options.aspectRatio ?? PDF417.DEFAULT_ASPECT_RATIO,
-      rowHeight: options.rowHeight ?? PDF417.DEFAULT_ROWHEIGHT,
-      quietH: options.quietH ?? PDF417.DEFAULT_QUIETH,
-      quietV: options.quietV ?? PDF417.DEFAULT_QUIETV,
+      errorCorrectionLevel: this.checkOption(
+        "errorCorrectionLevel",
+        options.errorCorrectionLevel ?? PDF417.DEFAULT_ECL,
+        [-1, 8],
+        PDF417.DEFAULT_ECL,
+        lenient,
+      ),
+      aspectRatio: this.checkAspectRatio(
+        options.aspectRatio ?? PDF417.DEFAULT_ASPECT_RATIO,
+        lenient,
+      ),
+      rowHeight: this.checkOption(
+        "rowHeight",
+        options.rowHeight ?? PDF417.DEFAULT_ROWHEIGHT,
+        [1, Number.POSITIVE_INFINITY],
+        PDF417.DEFAULT_ROWHEIGHT,
+        lenient,
+      ),
+      quietH: this.checkOption(
+        "quietH",
+        options.quietH ?? PDF417.DEFAULT_QUIETH,
+        [minQuiet, Number.POSITIVE_INFINITY],
+        PDF417.DEFAULT_QUIETH,
+        lenient,
+      ),
+      quietV: this.checkOption(
+        "quietV",
+        options.quietV ?? PDF417.DEFAULT_QUIETV,
+        [minQuiet, Number.POSITIVE_INFINITY],
+        PDF417.DEFAULT_QUIETV,
+        lenient,
+      ),
+      characterEncoding:
+        options.characterEncoding ?? PDF417.DEFAULT_CHARACTER_ENCODING,
+      compact: options.compact ?? false,
+      compress: options.compress ?? "none",
+      eclStrategy,
+      minColumns,
+      maxColumns,
+      minRows,
+      maxRows,
+      validation,
     };
     this.barcode_array = {
       num_rows: 0,
@@ -228,103 +470,183 @@ export class PDF417 {
     };
   }
 
-  public generate(code: string): BarcodeData | false {
-    if (code === "") {
-      return false;
+  /**
+   * Generate the barcode.
+   * A string is converted to bytes according to the characterEncoding option;
+   * binary data (Uint8Array / ArrayBuffer) is encoded byte for byte.
+   * An array of segments switches the ECI in the middle of the message,
+   * and is never compressed.
+   * Throws a PDF417Error if the data can't be encoded.
+   */
+  public generate(
+    code: string | Uint8Array | ArrayBuffer | EciSegment[],
+  ): BarcodeData {
+    if (this.options.compress === "deflate" && !Array.isArray(code)) {
+      const data = compressPayload(
+        code instanceof ArrayBuffer ? new Uint8Array(code) : code,
+      );
+      return this.generateSegments([{ data, mode: "byte" }]);
     }
+    const segments = Array.isArray(code) ? code : [{ data: code }];
+    return this.generateFromCodewords(this.getSegmentCodewords(segments));
+  }
 
-    // Convert UTF-8 to byte array (ISO-8859-1 like behavior for PDF417)
-    // TextEncoder().encode() returns Uint8Array. PDF417 spec usually implies ISO-8859-1 / Latin-1 for byte mode.
-    // For simplicity, we'll assume the input string's char codes are within 0-255 if byte mode is used.
-    // The original JS used unescape(encodeURIComponent(code)) which is complex.
-    // A direct conversion to char codes is more straightforward for this port,
-    // assuming the input `code` string is intended to be processed as a sequence of bytes
-    // where each character's code point is a byte value.
-    // This is a common simplification if true multi-byte UTF-8 is not strictly required by the caller
-    // or if the input is pre-processed.
-    const byteString = code; // Use the string directly for charCodeAt
+  /**
+   * Like generate, but returns the error instead of throwing it.
+   * Errors other than PDF417Error are still thrown.
+   */
+  public tryGenerate(
+    code: string | Uint8Array | ArrayBuffer | EciSegment[],
+  ): PDF417Result {
+    try {
+      return { ok: true, symbol: this.generate(code) };
+    } catch (error) {
+      if (error instanceof PDF417Error) return { ok: false, error };
+      throw error;
+    }
+  }
 
-    const sequence = this.getInputSequences(byteString);
-    let codewords: number[] = [];
-    for (let i = 0; i < sequence.length; i++) {
-      const cw = this.getCompaction(
-        sequence[i][0] as number,
-        sequence[i][1] as string,
-        true,
+  /**
+   * Generate the barcode with the compaction mode of every segment given,
+   * instead of the modes chosen for the fewest codewords.
+   * Throws a PDF417Error if a segment can't be encoded in its mode.
+   */
+  public generateSegments(segments: CompactionSegment[]): BarcodeData {
+    return this.generateFromCodewords(this.getSegmentCodewords(segments));
+  }
+
+  /**
+   * Generate a Macro PDF417 set: the data is split across as many symbols
+   * as needed, each ending with the control block a decoder uses to put
+   * the file back together.
+   * Throws a PDF417Error if the data or an option can't be encoded.
+   */
+  public generateMacro(
+    code: string | Uint8Array | ArrayBuffer,
+    macro: MacroPDF417Options = {},
+  ): BarcodeData[] {
+    const { byteString, eci } = this.encodeSegment({ data: code }, -1);
+    if (byteString === "") throw new EmptyInputError();
+    const bytes = Uint8Array.from(byteString, (c) => c.charCodeAt(0));
+
+    const controlBlock = this.getMacroControlBlock(macro, bytes);
+    const maxCodewords = macro.maxCodewords ?? this.getMaxDataCodewords();
+    if (
+      !Number.isInteger(maxCodewords) ||
+      maxCodewords > this.getMaxDataCodewords()
+    ) {
+      throw new InvalidOptionError(
+        "maxCodewords",
+        maxCodewords,
+        `must be an integer up to ${this.getMaxDataCodewords()}`,
+      );
+    }
+    // room for the data next to the largest control block
+    const largestBlock = controlBlock(
+      MAX_MACRO_SEGMENT_INDEX,
+      MAX_MACRO_SEGMENT_INDEX + 1,
+    ).length;
+    const capacity = maxCodewords - largestBlock;
+    if (capacity < 1) {
+      throw new InvalidOptionError(
+        "maxCodewords",
+        maxCodewords,
+        `leaves no room for data next to ${largestBlock} control block codewords`,
       );
-      codewords = codewords.concat(cw);
     }
 
-    if (codewords.length > 0 && codewords[0] === 900) {
-      // Text Alpha is the default mode, so remove the first code
-      codewords.shift();
+    // every symbol starts over in the default mode, so the data is split
+    // before compaction: take the longest part that still fits
+    const getCodewords = (start: number, end: number) =>
+      this.getSegmentCodewords(
+        [{ data: bytes.subarray(start, end), eci: eci >= 0 ? eci : undefined }],
+        Number.POSITIVE_INFINITY,
+      );
+    const parts: number[][] = [];
+    for (let start = 0; start < bytes.length; ) {
+      // Numeric Compaction packs fewer than 3 digits per codeword
+      let low = start;
+      let high = Math.min(bytes.length, start + 3 * capacity);
+      let codewords: number[] = [];
+      while (low < high) {
+        const end = Math.ceil((low + high) / 2);
+        const cw = getCodewords(start, end);
+        if (cw.length <= capacity) {
+          low = end;
+          codewords = cw;
+        } else {
+          high = end - 1;
+        }
+      }
+      if (low === start) {
+        // a single byte takes more codewords than there is room for
+        throw new CapacityExceededError(
+          getCodewords(start, start + 1).length,
+          capacity,
+        );
+      }
+      parts.push(codewords);
+      start = low;
+    }
+    if (parts.length > MAX_MACRO_SEGMENT_INDEX + 1) {
+      throw new CapacityExceededError(
+        parts.reduce((sum, part) => sum + part.length, 0),
+        capacity * (MAX_MACRO_SEGMENT_INDEX + 1),
+      );
     }
 
-    const numcw = codewords.length;
+    return parts.map((part, i) =>
+      this.generateFromCodewords(part, controlBlock(i, parts.length)),
+    );
+  }
+
+  protected generateFromCodewords(
+    segmentCodewords: number[],
+    macroCodewords: number[] = [],
+  ): BarcodeData {
+    if (segmentCodewords.length === 0) throw new EmptyInputError();
+    let codewords = segmentCodewords;
+
+    const numcw = codewords.length + macroCodewords.length;
     if (numcw > 925) {
-      // Reached maximum data codeword capacity
-      console.error("PDF417 Error: reached maximum data codeword capacity.");
-      return false;
+      throw new CapacityExceededError(numcw, 925);
+    }
+
+    // codewords the dimension options leave room for
+    const capacity = this.getDimensionCapacity();
+    if (numcw + 1 + 2 > capacity) {
+      // not even with the symbol length descriptor and error correction level 0
+      throw new DimensionConstraintError(
+        numcw,
+        Math.max(0, capacity - 3),
+        this.getDimensionConstraint(),
+      );
     }
 
-    const resolvedEcl = this.getErrorCorrectionLevel(
+    let resolvedEcl = this.getErrorCorrectionLevel(
       this.options.errorCorrectionLevel,
       numcw,
+      capacity,
     );
-    const errsize = 2 << resolvedEcl; // number of codewords for error correction
-    const nce = numcw + errsize + 1; // total codewords + symbol length descriptor
-
-    // calculate number of columns (number of codewords per row) and rows
-    let cols = Math.round(
-      (Math.sqrt(
-        4761 + 68 * this.options.aspectRatio * this.options.rowHeight * nce,
-      ) -
-        69) /
-        34,
-    );
+    let errsize = 2 << resolvedEcl; // number of codewords for error correction
+    let nce = numcw + errsize + 1; // total codewords + symbol length descriptor
 
-    // adjust cols
-    if (cols < 1) cols = 1;
-    else if (cols > 30) cols = 30;
-
-    let rows = Math.ceil(nce / cols);
-    let size = cols * rows;
-
-    // adjust rows
-    if (rows < 3) {
-      rows = 3;
-      // Recalculate cols and size
-      cols = Math.ceil(nce / rows);
-      if (cols > 30) cols = 30; // Cap columns
-      size = cols * rows;
-    } else if (rows > 90) {
-      rows = 90;
-      // Recalculate cols and size
-      cols = Math.ceil(nce / rows);
-      if (cols < 1) cols = 1; // Ensure at least 1 column
-      size = cols * rows;
-    }
-
-    // Final adjustment to ensure cols is within limits after row adjustment
-    if (cols < 1) cols = 1;
-    else if (cols > 30) cols = 30;
-
-    // Re-calculate size if cols or rows were capped
-    size = cols * rows;
-
-    if (size > 928) {
-      // set dimensions to get maximum capacity
-      if (
-        Math.abs(this.options.aspectRatio - (17 * 29) / 32) <
-        Math.abs(this.options.aspectRatio - (17 * 16) / 58)
-      ) {
-        cols = 29;
-        rows = 32;
-      } else {
-        cols = 16;
-        rows = 58;
+    const { compact } = this.options;
+    const stopPattern = compact
+      ? PDF417.COMPACT_STOP_PATTERN
+      : PDF417.STOP_PATTERN;
+
+    // number of columns (number of codewords per row) and rows
+    const [cols, rows] = this.getDimensions(nce);
+    const size = cols * rows;
+
+    if (this.options.eclStrategy === "maximize") {
+      // spend the padding on error correction, in the same size
+      while (resolvedEcl < 8 && numcw + 1 + (4 << resolvedEcl) <= size) {
+        ++resolvedEcl;
       }
-      size = cols * rows; // Should be 928 or 928
+      errsize = 2 << resolvedEcl;
+      nce = numcw + errsize + 1;
     }
 
     // calculate padding
@@ -358,47 +680,42 @@ export class PDF417 {
       // we'll use the straightforward padding method.
       codewords = codewords.concat(Array(pad).fill(900));
     }
+    // the Macro PDF417 control block is the last of the data codewords
+    codewords = codewords.concat(macroCodewords);
 
     // Symbol Length Descriptor (number of data codewords including Symbol Length Descriptor and pad codewords)
     const sld = size - errsize;
     codewords.unshift(sld); // add symbol length description
 
     // calculate error correction
-    const ecw = this.getErrorCorrection(codewords, resolvedEcl);
+    const ecw = this.getErrorCorrection(
+      codewords,
+      PDF417.RS_FACTORS[resolvedEcl],
+    );
     codewords = codewords.concat(ecw); // add error correction codewords
 
     // add horizontal quiet zones to start and stop patterns
     const pstart = "0".repeat(this.options.quietH) + PDF417.START_PATTERN;
-    const pstop = PDF417.STOP_PATTERN + "0".repeat(this.options.quietH);
-
-    this.barcode_array.num_rows =
-      rows * this.options.rowHeight + 2 * this.options.quietV;
-    this.barcode_array.num_cols =
-      (cols + 2) * 17 +
-      PDF417.START_PATTERN.length +
-      PDF417.STOP_PATTERN.length -
-      17 /*overlap*/ +
-      2 * this.options.quietH;
-    // Correct num_cols calculation based on original JS: (cols + 2) * 17 means 2 indicators of 17 bits.
-    // Start pattern length is 17, stop pattern length is 18.
-    // Let's use the original formula for width calculation from JS (it was (cols + 2) * 17 + 35 + 2 * this.QUIETH)
-    // The '35' comes from START_PATTERN.length (17) + STOP_PATTERN.length (18).
-    // So, (cols + 2)*17 for data and row indicators, plus 17 for start, 18 for stop.
-    this.barcode_array.num_cols =
-      cols * 17 +
-      2 * 17 /*left/right indicators*/ +
-      PDF417.START_PATTERN.length +
-      PDF417.STOP_PATTERN.length +
-      2 * this.options.quietH;
-
-    this.barcode_array.bcode = [];
+    const pstop = stopPattern + "0".repeat(this.options.quietH);
+
+    // a new symbol every time, so that earlier results stay as they were
+    const symbol: PDF417Symbol = {
+      num_rows: rows * this.options.rowHeight + 2 * this.options.quietV,
+      num_cols:
+        cols * 17 +
+        (compact ? 1 : 2) * 17 /*left/right indicators*/ +
+        PDF417.START_PATTERN.length +
+        stopPattern.length +
+        2 * this.options.quietH,
+      bcode: [],
+    };
 
     let empty_row: number[] = [];
     // build rows for vertical quiet zone
     if (this.options.quietV > 0) {
-      empty_row = Array(this.barcode_array.num_cols).fill(0);
+      empty_row = Array(symbol.num_cols).fill(0);
       for (let i = 0; i < this.options.quietV; ++i) {
-        this.barcode_array.bcode.push([...empty_row]);
+        symbol.bcode.push([...empty_row]);
       }
     }
 
@@ -437,28 +754,30 @@ export class PDF417 {
         ++k;
       }
 
-      // right row indicator
-      switch (cid) {
-        case 0:
-          L = 30 * Math.floor(r / 3) + (cols - 1);
-          break;
-        case 1:
-          L = 30 * Math.floor(r / 3) + Math.floor((rows - 1) / 3);
-          break;
-        case 2:
-          L = 30 * Math.floor(r / 3) + resolvedEcl * 3 + ((rows - 1) % 3);
-          break;
-        default:
-          L = 0; // Should not happen
+      // right row indicator (left out in Compact PDF417)
+      if (!compact) {
+        switch (cid) {
+          case 0:
+            L = 30 * Math.floor(r / 3) + (cols - 1);
+            break;
+          case 1:
+            L = 30 * Math.floor(r / 3) + Math.floor((rows - 1) / 3);
+            break;
+          case 2:
+            L = 30 * Math.floor(r / 3) + resolvedEcl * 3 + ((rows - 1) % 3);
+            break;
+          default:
+            L = 0; // Should not happen
+        }
+        rowPatternStr += this.getCodewordPattern(currentClusterSet[L]);
       }
-      rowPatternStr += this.getCodewordPattern(currentClusterSet[L]);
 
-      rowPatternStr += PDF417.STOP_PATTERN + "0".repeat(this.options.quietH); // row stop code with quiet zone
+      rowPatternStr += stopPattern + "0".repeat(this.options.quietH); // row stop code with quiet zone
 
       const arow = rowPatternStr.split("").map(Number);
       // duplicate row to get the desired height
       for (let h = 0; h < this.options.rowHeight; ++h) {
-        this.barcode_array.bcode.push([...arow]);
+        symbol.bcode.push([...arow]);
       }
 
       cid = (cid + 1) % 3; // Cycle through 0, 1, 2 for cluster selection
@@ -467,197 +786,577 @@ export class PDF417 {
     if (this.options.quietV > 0) {
       for (let i = 0; i < this.options.quietV; ++i) {
         // add vertical quiet rows
-        this.barcode_array.bcode.push([...empty_row]);
+        symbol.bcode.push([...empty_row]);
       }
     }
-    return this.barcode_array;
+    if (this.warnings.length > 0) symbol.warnings = [...this.warnings];
+    this.barcode_array = symbol;
+    return symbol;
   }
 
-  private getCodewordPattern(value: number): string {
-    return value.toString(2).padStart(17, "0");
+  /**
+   * Data columns and rows for nce codewords: of every shape within the
+   * dimension options that holds them in at most 928 codewords, the one with
+   * the lowest score. The score adds up, on a log scale, how far the width
+   * to height is from the aspect ratio, the share of padding codewords and
+   * the area over that of the codewords alone.
+   */
+  protected getDimensions(nce: number): [number, number] {
+    const { aspectRatio, rowHeight, minColumns, maxColumns, minRows, maxRows } =
+      this.options;
+    // modules beside the data columns: start pattern, row indicators and stop pattern
+    const overhead = this.options.compact ? 17 + 17 + 1 : 17 + 34 + 18;
+    let best: [number, number] = [maxColumns, maxRows];
+    let bestScore = Number.POSITIVE_INFINITY;
+    for (let cols = minColumns; cols <= maxColumns; ++cols) {
+      for (
+        let rows = Math.max(minRows, Math.ceil(nce / cols));
+        rows <= maxRows;
+        ++rows
+      ) {
+        const size = cols * rows;
+        if (size > 928) break;
+        const width = cols * 17 + overhead;
+        const height = rows * rowHeight;
+        const score =
+          Math.abs(Math.log(width / height / aspectRatio)) +
+          Math.log(size / nce) +
+          Math.log((width * height) / (17 * nce * rowHeight));
+        if (score < bestScore) {
+          best = [cols, rows];
+          bestScore = score;
+        }
+      }
+    }
+    return best;
   }
 
-  private getInputSequences(code: string): (string | number)[][] {
-    const sequence_array: (string | number)[][] = [];
-    // get numeric sequences
-    const numseqMatches = Array.from(code.matchAll(/([0-9]{13,44})/g));
-    const numseq: [string, number][] = numseqMatches.map((match) => [
-      match[1],
-      match.index ?? 0,
-    ]);
-
-    numseq.push(["", code.length]); // Add a sentinel for processing the rest of the string
-
-    let offset = 0;
-    for (const seqItem of numseq) {
-      const currentNumSeqStr = seqItem[0];
-      const currentNumSeqOffset = seqItem[1];
-      const seqlen = currentNumSeqStr.length;
-
-      if (currentNumSeqOffset > offset) {
-        // extract text sequence before the number sequence
-        const prevseq = code.substring(offset, currentNumSeqOffset);
-        const textseqMatches = Array.from(
-          prevseq.matchAll(/([\t\n\r\x20-\x7e]{5,})/g),
+  /**
+   * Codewords of the segments. Throws a CapacityExceededError before
+   * compaction when the data can't fit in maxCodewords even in Numeric
+   * Compaction, the densest mode (44 digits in 15 codewords).
+   */
+  protected getSegmentCodewords(
+    segments: (EciSegment | CompactionSegment)[],
+    maxCodewords = 925,
+  ): number[] {
+    let codewords: number[] = [];
+    let currentEci = -1; // ECI in effect, -1 = default character set
+    for (const segment of segments) {
+      const encoded = this.encodeSegment(segment, currentEci);
+      if (encoded.byteString === "") continue;
+      const fewest =
+        codewords.length + Math.ceil((encoded.byteString.length * 15) / 44);
+      if (fewest > maxCodewords) {
+        throw new CapacityExceededError(fewest, maxCodewords);
+      }
+
+      let sequence: (string | number)[][];
+      if ("mode" in segment) {
+        const mode = PDF417.COMPACTION_MODES[segment.mode];
+        if (mode === undefined) {
+          throw new InvalidOptionError(
+            "mode",
+            segment.mode,
+            "must be text, byte or numeric",
+          );
+        }
+        const nonDigit = encoded.byteString.search(/[^0-9]/);
+        if (mode === 902 && nonDigit >= 0) {
+          throw new UnencodableCharacterError(
+            nonDigit,
+            encoded.byteString[nonDigit],
+            "Numeric Compaction",
+          );
+        }
+        sequence = [[mode, encoded.byteString]];
+      } else {
+        sequence = this.getInputSequences(encoded.byteString);
+      }
+      for (let i = 0; i < sequence.length; i++) {
+        const mode = sequence[i][0] as number;
+        // Text Alpha is the default mode at the start of the symbol, so omit the first latch
+        const addmode = codewords.length > 0 || mode !== 900;
+        // a changed ECI is designated in front of the first sequence of the segment
+        const eci = i === 0 && encoded.eci !== currentEci ? encoded.eci : -1;
+        const cw = this.getCompaction(
+          mode,
+          sequence[i][1] as string,
+          addmode,
+          eci,
+        );
+        codewords = codewords.concat(cw);
+      }
+      currentEci = encoded.eci;
+    }
+    return codewords;
+  }
+
+  /**
+   * Convert segment data to a byte string (one byte value per character)
+   * and the ECI that applies to it.
+   * Throws if the data can't be converted.
+   */
+  private encodeSegment(
+    segment: EciSegment,
+    currentEci: number,
+  ): { byteString: string; eci: number } {
+    const { data } = segment;
+    if (
+      segment.eci !== undefined &&
+      !(
+        Number.isInteger(segment.eci) &&
+        segment.eci >= 0 &&
+        segment.eci <= MAX_ECI
+      )
+    ) {
+      throw new InvalidOptionError(
+        "eci",
+        segment.eci,
+        `must be an ECI assignment number (0-${MAX_ECI})`,
+      );
+    }
+    if (typeof data !== "string") {
+      // binary data is taken as is, in the requested or current ECI
+      return {
+        byteString: PDF417.toByteString(data),
+        eci: segment.eci ?? currentEci,
+      };
+    }
+    const eci = segment.eci ?? this.getStringEci(data);
+    if (eci >= 0) {
+      const charset = getCharacterSet(eci);
+      if (!charset) {
+        throw new InvalidOptionError(
+          "eci",
+          eci,
+          "no character set is registered to encode strings",
         );
-        const textseq: [string, number][] = textseqMatches.map((match) => [
-          match[1],
-          match.index ?? 0,
-        ]);
-        textseq.push(["", prevseq.length]); // Sentinel
-
-        let txtoffset = 0;
-        for (const txtSeqItem of textseq) {
-          const currentTextSeqStr = txtSeqItem[0];
-          const currentTextSeqOffset = txtSeqItem[1];
-          const txtseqlen = currentTextSeqStr.length;
-
-          if (currentTextSeqOffset > txtoffset) {
-            // extract byte sequence before the text sequence
-            const prevtxtseq = prevseq.substring(
-              txtoffset,
-              currentTextSeqOffset,
-            );
-            if (prevtxtseq.length > 0) {
-              // add BYTE sequence
-              if (
-                prevtxtseq.length === 1 &&
-                sequence_array.length > 0 &&
-                sequence_array[sequence_array.length - 1][0] === 900 // Last mode was Text
-              ) {
-                sequence_array.push([913, prevtxtseq]); // Byte compaction (shift)
-              } else if (prevtxtseq.length % 6 === 0) {
-                sequence_array.push([924, prevtxtseq]); // Byte compaction (latched, multiple of 6)
-              } else {
-                sequence_array.push([901, prevtxtseq]); // Byte compaction (latched)
-              }
-            }
+      }
+      const bytes = charset.encode(data);
+      if (!bytes) {
+        throw PDF417.getUnencodableCharacterError(
+          data,
+          charset.name,
+          (c) => !!charset.encode(c),
+        );
+      }
+      return { byteString: PDF417.toByteString(bytes), eci };
+    }
+    if (!PDF417.isLatin1(data)) {
+      // characters outside Latin-1 can't be encoded one byte per character
+      throw PDF417.getUnencodableCharacterError(
+        data,
+        "Latin-1",
+        PDF417.isLatin1,
+      );
+    }
+    // switch back to Latin-1 only when another ECI has been designated
+    return {
+      byteString: data,
+      eci: currentEci === -1 ? -1 : PDF417.ECI_LATIN1,
+    };
+  }
+
+  /** ECI for string data according to characterEncoding, -1 = Latin-1 without designator */
+  private getStringEci(code: string): number {
+    switch (this.options.characterEncoding) {
+      case "utf8":
+        return PDF417.ECI_UTF8;
+      case "shift_jis":
+        return PDF417.ECI_SHIFT_JIS;
+      case "latin1":
+        return -1;
+      default:
+        return PDF417.isLatin1(code) ? -1 : PDF417.ECI_UTF8;
+    }
+  }
+
+  private static isLatin1(code: string): boolean {
+    for (let i = 0; i < code.length; ++i) {
+      if (code.charCodeAt(i) > 0xff) return false;
+    }
+    return true;
+  }
+
+  /** Error for the first character of the string that can't be encoded */
+  private static getUnencodableCharacterError(
+    code: string,
+    encoding: string,
+    canEncode: (character: string) => boolean,
+  ): UnencodableCharacterError {
+    let index = 0;
+    for (const character of code) {
+      if (!canEncode(character)) {
+        return new UnencodableCharacterError(index, character, encoding);
+      }
+      index += character.length;
+    }
+    return new UnencodableCharacterError(-1, "", encoding);
+  }
+
+  private static toByteString(data: Uint8Array | ArrayBuffer): string {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    let byteString = "";
+    for (let i = 0; i < bytes.length; ++i) {
+      byteString += String.fromCharCode(bytes[i]);
+    }
+    return byteString;
+  }
+
+  /**
+   * Control block builder for the symbols of a Macro PDF417 set.
+   * Throws an InvalidOptionError if an option is invalid.
+   */
+  private getMacroControlBlock(
+    macro: MacroPDF417Options,
+    data: Uint8Array,
+  ): (index: number, count: number) => number[] {
+    const checksum = getMacroChecksum(data);
+    const fileId = macro.fileId ?? [Math.floor(checksum / 900), checksum % 900];
+    if (
+      fileId.length === 0 ||
+      fileId.some((cw) => !Number.isInteger(cw) || cw < 0 || cw > 899)
+    ) {
+      throw new InvalidOptionError(
+        "fileId",
+        fileId,
+        "must be one or more codewords (0-899)",
+      );
+    }
+    const timestamp =
+      macro.timestamp instanceof Date
+        ? Math.floor(macro.timestamp.getTime() / 1000)
+        : macro.timestamp;
+    if (
+      timestamp !== undefined &&
+      !(Number.isSafeInteger(timestamp) && timestamp >= 0)
+    ) {
+      throw new InvalidOptionError(
+        "timestamp",
+        macro.timestamp,
+        "must be a date or seconds since 1970",
+      );
+    }
+    for (const option of ["fileName", "sender", "addressee"] as const) {
+      const text = macro[option];
+      if (text !== undefined && !PDF417.isLatin1(text)) {
+        throw new InvalidOptionError(option, text, "must be Latin-1 text");
+      }
+    }
+
+    // optional fields in the order of their designators
+    const textField = (text?: string) =>
+      text ? this.getCompaction(900, text, false) : undefined;
+    const numericField = (value: number) =>
+      this.getCompaction(902, String(value), false);
+    const fields = (count: number): [number, number[]][] => {
+      const list: [number, number[] | undefined][] = [
+        [MACRO_FIELDS.fileName, textField(macro.fileName)],
+        [
+          MACRO_FIELDS.segmentCount,
+          macro.segmentCount === false ? undefined : numericField(count),
+        ],
+        [
+          MACRO_FIELDS.timestamp,
+          timestamp === undefined ? undefined : numericField(timestamp),
+        ],
+        [MACRO_FIELDS.sender, textField(macro.sender)],
+        [MACRO_FIELDS.addressee, textField(macro.addressee)],
+        [
+          MACRO_FIELDS.fileSize,
+          macro.fileSize ? numericField(data.length) : undefined,
+        ],
+        [
+          MACRO_FIELDS.checksum,
+          macro.checksum ? numericField(checksum) : undefined,
+        ],
+      ];
+      return list.filter((field): field is [number, number[]] => !!field[1]);
+    };
+
+    return (index, count) => {
+      // the segment index is always 5 digits, two codewords
+      const block = [
+        MACRO_CONTROL_BLOCK,
+        ...this.getCompaction(902, String(index).padStart(5, "0"), false),
+        ...fileId,
+      ];
+      for (const [designator, cw] of fields(count)) {
+        block.push(MACRO_OPTIONAL_FIELD, designator, ...cw);
+      }
+      if (index === count - 1) block.push(MACRO_TERMINATOR);
+      return block;
+    };
+  }
+
+  protected getCodewordPattern(value: number): string {
+    return value.toString(2).padStart(17, "0");
+  }
+
+  /**
+   * Shortest latch sequences between any two Text Compaction states.
+   * A state is sub-mode * 2 + parity of the values emitted so far, since only
+   * an even number of values ends on a codeword boundary.
+   */
+  private static getTextLatchPaths(): (number[] | null)[][] {
+    const paths: (number[] | null)[][] = Array.from({ length: 8 }, (_, from) =>
+      Array.from({ length: 8 }, (_, to) => (from === to ? [] : null)),
+    );
+    for (const [key, latch] of PDF417.TEXT_LATCH_MAP) {
+      for (let parity = 0; parity < 2; ++parity) {
+        const from = Number(key[0]) * 2 + parity;
+        const to = Number(key[1]) * 2 + ((parity + latch.length) & 1);
+        paths[from][to] = latch;
+      }
+    }
+    // Floyd-Warshall over the 8 states
+    for (let via = 0; via < 8; ++via) {
+      for (let from = 0; from < 8; ++from) {
+        for (let to = 0; to < 8; ++to) {
+          const first = paths[from][via];
+          const second = paths[via][to];
+          const current = paths[from][to];
+          if (
+            first &&
+            second &&
+            (!current || first.length + second.length < current.length)
+          ) {
+            paths[from][to] = [...first, ...second];
           }
-          if (txtseqlen > 0) {
-            // add TEXT sequence
-            sequence_array.push([900, currentTextSeqStr]);
+        }
+      }
+    }
+    return paths;
+  }
+
+  /** Fewest values to reach each Text Compaction state with latches only. */
+  private static getTextReach(cost: number[]): number[] {
+    return PDF417.TEXT_LATCH_PATHS.map((_, to) =>
+      Math.min(
+        ...cost.map((v, from) => {
+          const latch = PDF417.TEXT_LATCH_PATHS[from][to];
+          return latch ? v + latch.length : Number.POSITIVE_INFINITY;
+        }),
+      ),
+    );
+  }
+
+  /**
+   * One character further in Text Compaction mode: from each state, latch to
+   * any sub-mode, then encode the character in it, with a shift (29 to
+   * punctuation, 27 to alpha from lower), or as a byte after the 913 Byte
+   * Compaction shift when on a codeword boundary.
+   * Returns the fewest values to reach each state; `back`, when given,
+   * receives the previous state and the values emitted to reach each state.
+   */
+  private advanceText(
+    cost: number[],
+    chval: number,
+    back?: { from: number; values: number[] }[],
+  ): number[] {
+    const next: number[] = Array(8).fill(Number.POSITIVE_INFINITY);
+    const values = chval < 0x80 ? PDF417.TEXT_VALUES.map((t) => t[chval]) : [];
+    for (let from = 0; from < 8; ++from) {
+      if (cost[from] === Number.POSITIVE_INFINITY) continue;
+      for (let state = 0; state < 8; ++state) {
+        const latch = PDF417.TEXT_LATCH_PATHS[from][state];
+        if (!latch) continue;
+        const submode = state >> 1;
+        const options: number[][] = [];
+        if (values[submode] >= 0) options.push([values[submode]]);
+        if (submode !== 3 && values[3] >= 0) options.push([29, values[3]]);
+        if (submode === 1 && values[0] >= 0) options.push([27, values[0]]);
+        if ((state & 1) === 0) options.push([913, chval]);
+        for (const option of options) {
+          // 913 and the byte are whole codewords, worth two values each
+          const length = option[0] === 913 ? 4 : option.length;
+          const total = cost[from] + latch.length + length;
+          const to = (state & ~1) | ((state + length) & 1);
+          if (total < next[to]) {
+            next[to] = total;
+            if (back) back[to] = { from, values: [...latch, ...option] };
           }
-          txtoffset = currentTextSeqOffset + txtseqlen;
         }
       }
-      if (seqlen > 0) {
-        // add NUMERIC sequence
-        sequence_array.push([902, currentNumSeqStr]);
+    }
+    return next;
+  }
+
+  /**
+   * Split the input into the compaction mode sequences giving the fewest codewords.
+   * best[k] is the fewest codewords for the first k characters; Numeric
+   * sequences are tried from every position, the cheapest Byte sequence
+   * ending at each position is found from the best start of every residue
+   * modulo 6, and Text sequences are followed character by character until
+   * another one is at least as cheap in every state.
+   */
+  private getInputSequences(code: string): (string | number)[][] {
+    const codelen = code.length;
+    const best: number[] = Array(codelen + 1).fill(Number.POSITIVE_INFINITY);
+    const last: [number, number][] = Array(codelen + 1); // [start, mode] of the last sequence
+    best[0] = 0;
+    let texts: { start: number; cost: number[] }[] = [];
+    // n bytes take n - floor(n / 6) codewords, so six times the cost of a
+    // Byte sequence from k to j is 6 * best[k] - 5 * k + 5 * j + (j - k) % 6
+    // + 6: of the starts with the same k % 6, the lowest 6 * best[k] - 5 * k
+    // (the first on a tie) is the cheapest for every j
+    const byteStarts: { start: number; key: number }[] = [];
+    for (let k = 0; k <= codelen; ++k) {
+      // Byte sequences ending here; on a tie the earliest start, as if
+      // every start had been tried in order before the Numeric sequences
+      let byteStart = -1;
+      let byteCost = Number.POSITIVE_INFINITY;
+      for (const entry of byteStarts) {
+        if (!entry) continue;
+        const { start, key } = entry;
+        const cost = (key + 5 * k + ((k - start) % 6) + 6) / 6;
+        if (cost < byteCost || (cost === byteCost && start < byteStart)) {
+          byteStart = start;
+          byteCost = cost;
+        }
+      }
+      if (
+        byteCost < best[k] ||
+        (byteCost === best[k] && byteStart <= last[k][0])
+      ) {
+        best[k] = byteCost;
+        last[k] = [byteStart, 901];
+      }
+
+      // Text sequences ending here (padded to a whole codeword)
+      for (const text of texts) {
+        const cw = Math.ceil(
+          Math.min(...text.cost.map((v, state) => v + (state & 1))) / 2,
+        );
+        if (cw <= best[k]) {
+          best[k] = cw;
+          last[k] = [text.start, 900];
+        }
+      }
+      if (k === codelen) break;
+
+      // new Text sequence; Text Alpha is the default mode at the start of the symbol
+      const cost = Array(8).fill(Number.POSITIVE_INFINITY);
+      cost[0] = 2 * best[k] + (k === 0 ? 0 : 2);
+      texts.push({ start: k, cost });
+      // a sequence that costs at least as much as another in every state
+      // (latches included) can't do better from here on
+      const reach = texts.map((text) => PDF417.getTextReach(text.cost));
+      texts = texts.filter((_, a) =>
+        reach.every(
+          (other, b) =>
+            b === a ||
+            other.some((v, state) => v > reach[a][state]) ||
+            (b > a && other.every((v, state) => v === reach[a][state])),
+        ),
+      );
+
+      // Byte sequences from here
+      const key = 6 * best[k] - 5 * k;
+      const residue = byteStarts[k % 6];
+      if (!residue || key < residue.key) {
+        byteStarts[k % 6] = { start: k, key };
+      }
+      // Numeric sequences
+      for (let j = k + 1; j <= codelen && /[0-9]/.test(code[j - 1]); ++j) {
+        const n = j - k;
+        const cw =
+          best[k] +
+          1 +
+          Math.floor(n / 44) * PDF417.NUMERIC_LENGTHS[44] +
+          PDF417.NUMERIC_LENGTHS[n % 44];
+        if (cw < best[j]) {
+          best[j] = cw;
+          last[j] = [k, 902];
+        }
+      }
+
+      for (const text of texts) {
+        text.cost = this.advanceText(text.cost, code.charCodeAt(k));
       }
-      offset = currentNumSeqOffset + seqlen;
+    }
+
+    const sequence_array: (string | number)[][] = [];
+    for (let k = codelen; k > 0; k = last[k][0]) {
+      sequence_array.unshift([last[k][1], code.substring(last[k][0], k)]);
     }
     return sequence_array;
   }
 
-  private getCompaction(mode: number, code: string, addmode = true): number[] {
+  private getCompaction(
+    mode: number,
+    code: string,
+    addmode = true,
+    eci = -1,
+  ): number[] {
     let cw: number[] = []; // array of codewords to return
+    let latch = mode; // mode latch codeword actually used
     switch (mode) {
       case 900: {
         // Text Compaction mode latch
-        let submode = 0; // default Alpha sub-mode
+        // find the fewest values from the Alpha sub-mode, then walk back through the states
+        let cost: number[] = Array(8).fill(Number.POSITIVE_INFINITY);
+        cost[0] = 0; // default Alpha sub-mode
+        const backs: { from: number; values: number[] }[][] = [];
+        for (let i = 0; i < code.length; ++i) {
+          const back: { from: number; values: number[] }[] = [];
+          cost = this.advanceText(cost, code.charCodeAt(i), back);
+          backs.push(back);
+        }
+        // fewest codewords after padding; on a tie, fewest values (padding is free)
+        let state = 0;
+        for (let s = 1; s < 8; ++s) {
+          const padded = cost[s] + (s & 1) - (cost[state] + (state & 1));
+          if (padded < 0 || (padded === 0 && cost[s] < cost[state])) state = s;
+        }
         const txtarr: number[] = []; // array of characters and sub-mode switching characters
-        const codelen = code.length;
-        for (let i = 0; i < codelen; ++i) {
-          const chval = code.charCodeAt(i);
-          const alphaSubmode = PDF417.TEXT_SUBMODES_MAP.get("alpha");
-          if (!alphaSubmode) continue;
-          let k = alphaSubmode.indexOf(chval);
-          if (k !== -1) {
-            // we are on the same sub-mode
-            txtarr.push(k);
-            continue;
-          }
-          // search new sub-mode
-          let foundNewSubmode = false;
-          for (let s = 0; s < 4; ++s) {
-            if (s !== submode) {
-              const newSubmode = PDF417.TEXT_SUBMODES_MAP.get(s.toString());
-              if (!newSubmode) continue;
-              k = newSubmode.indexOf(chval);
-              if (k !== -1) {
-                // s is the new submode
-                // Determine if shift or latch
-                const currentSubmode = PDF417.TEXT_SUBMODES_MAP.get(
-                  submode.toString(),
-                );
-                if (!currentSubmode) continue;
-                const nextCharIsCurrentSubmode =
-                  i + 1 < codelen &&
-                  currentSubmode.indexOf(code.charCodeAt(i + 1)) !== -1;
-
-                if (nextCharIsCurrentSubmode) {
-                  // Shift
-                  txtarr.push(27, k);
-                } else {
-                  // Latch
-                  const latchKey = `${submode}${s}`;
-                  const latchValue = PDF417.TEXT_LATCH_MAP.get(latchKey);
-                  if (latchValue) {
-                    txtarr.push(...latchValue);
-                  }
-                  submode = s; // set new submode
-                }
-                txtarr.push(k);
-                foundNewSubmode = true;
-                break;
-              }
-            }
-          }
-          if (!foundNewSubmode) {
-            // Character not found in any submode
-            txtarr.push(29); // Push padding as fallback
+        for (let i = code.length - 1; i >= 0; --i) {
+          txtarr.unshift(...backs[i][state].values);
+          state = backs[i][state].from;
+        }
+        // calculate codewords
+        let pending = -1; // first value of a codeword
+        for (let i = 0; i < txtarr.length; ++i) {
+          if (txtarr[i] === 913) {
+            // Byte Compaction shift, always on a codeword boundary
+            cw.push(913, txtarr[++i]);
+          } else if (pending < 0) {
+            pending = txtarr[i];
+          } else {
+            cw.push(30 * pending + txtarr[i]);
+            pending = -1;
           }
         }
-        let txtarrlen = txtarr.length;
-        if (txtarrlen % 2 !== 0) {
+        if (pending >= 0) {
           // add padding
-          txtarr.push(29); // Pad with Punctuation space
-          ++txtarrlen;
-        }
-        // calculate codewords
-        for (let i = 0; i < txtarrlen; i += 2) {
-          const codeword = 30 * txtarr[i] + txtarr[i + 1];
-          cw.push(codeword % 929); // Ensure value is within 0-928 range
+          cw.push(30 * pending + 29);
         }
         break;
       }
       case 901: // Byte Compaction mode latch (any number of bytes)
       case 924: {
         // Byte Compaction mode latch (multiple of 6 bytes)
-        const tempCode = code;
-        const codelen = tempCode.length;
-
-        if (mode === 924 && codelen % 6 === 0) {
-          // Process in blocks of 6
-          for (let i = 0; i < codelen; i += 6) {
-            const block = tempCode.substring(i, i + 6);
-            let t = BigInt(0);
-            t = t + BigInt(block.charCodeAt(0)) * 256n ** 5n;
-            t = t + BigInt(block.charCodeAt(1)) * 256n ** 4n;
-            t = t + BigInt(block.charCodeAt(2)) * 256n ** 3n;
-            t = t + BigInt(block.charCodeAt(3)) * 256n ** 2n;
-            t = t + BigInt(block.charCodeAt(4)) * 256n ** 1n;
-            t = t + BigInt(block.charCodeAt(5));
-
-            const cw6: number[] = [];
-            do {
-              const d = Number(t % 900n);
-              t = t / 900n;
-              cw6.unshift(d);
-            } while (t !== 0n);
-            // Ensure 5 codewords are produced, padding with 0 if necessary at the front.
-            while (cw6.length < 5) {
-              cw6.unshift(0);
-            }
-            cw = cw.concat(cw6);
+        // 924 may only be used when every byte is part of a 6-byte group
+        latch = code.length % 6 === 0 ? 924 : 901;
+        const codelen = code.length;
+        const groupsEnd = codelen - (codelen % 6);
+        // each full group of 6 bytes is a base-256 number packed into 5 base-900 codewords
+        for (let i = 0; i < groupsEnd; i += 6) {
+          let t = 0n;
+          for (let j = 0; j < 6; ++j) {
+            t = t * 256n + BigInt(code.charCodeAt(i + j) & 0xff);
           }
-        } else {
-          // Mode 901 or mode 924 with non-multiple of 6 (should ideally not happen for 924)
-          // Process byte by byte
-          for (let i = 0; i < codelen; ++i) {
-            const charCode = tempCode.charCodeAt(i);
-            cw.push(charCode % 929); // Ensure value is within 0-928 range
+          const cw5: number[] = [];
+          for (let j = 0; j < 5; ++j) {
+            cw5.unshift(Number(t % 900n));
+            t = t / 900n;
           }
+          cw = cw.concat(cw5);
+        }
+        // the remaining bytes (901 only) are encoded one per codeword
+        for (let i = groupsEnd; i < codelen; ++i) {
+          cw.push(code.charCodeAt(i) & 0xff);
         }
         break;
       }
@@ -688,18 +1387,26 @@ export class PDF417 {
     }
     if (addmode) {
       // add the compaction mode codeword at the beginning
-      cw.unshift(mode);
+      cw.unshift(latch);
+    }
+    if (eci >= 0) {
+      // ECI designator in front of the mode latch
+      cw.unshift(...getEciDesignator(eci));
     }
     return cw;
   }
 
-  private getErrorCorrectionLevel(ecl: number, numcw: number): number {
+  private getErrorCorrectionLevel(
+    ecl: number,
+    numcw: number,
+    capacity = 928,
+  ): number {
     // get maximum correction level
     let maxecl = 8; // starting error level
     while (maxecl >= 0) {
       // Iterate downwards correctly
       const errsize = 2 << maxecl; // Max error size for this level
-      if (928 - (numcw + 1) >= errsize) {
+      if (capacity - (numcw + 1) >= errsize) {
         // numcw + 1 for Symbol Length Descriptor
         break;
       }
@@ -723,11 +1430,10 @@ export class PDF417 {
     return resolvedEcl;
   }
 
-  private getErrorCorrection(cw: number[], ecl: number): number[] {
-    // get error correction coefficients
-    const ecc = PDF417.RS_FACTORS[ecl];
+  /** Error correction codewords for the generator polynomial coefficients in ecc */
+  protected getErrorCorrection(cw: number[], ecc: number[]): number[] {
     // number of error correction factors (degree of generator polynomial, also number of EC codewords)
-    const eclsize = 2 << ecl;
+    const eclsize = ecc.length;
     // maximum index for rsfactors[ecl]
     const eclmaxid = eclsize - 1; // This is incorrect based on original code's loop.
     // ecc.length is eclsize. Loop is `j > 0`. So ecc[j] means ecc[$j] where $j is loop var.
@@ -768,6 +1474,138 @@ export class PDF417 {
     return final_ecw.reverse(); // Reverse the order of EC codewords
   }
 
+  /** Most data codewords a single symbol can hold */
+  protected getMaxDataCodewords(): number {
+    return 925;
+  }
+
+  /** Most codewords of a symbol (at most 928) within the dimension options */
+  private getDimensionCapacity(): number {
+    const { minColumns, maxColumns, minRows, maxRows } = this.options;
+    let capacity = 0;
+    for (let cols = minColumns; cols <= maxColumns; ++cols) {
+      const rows = Math.min(maxRows, Math.floor(928 / cols));
+      if (rows >= minRows) capacity = Math.max(capacity, cols * rows);
+    }
+    return capacity;
+  }
+
+  /** The dimension options in force, for error messages */
+  private getDimensionConstraint(): string {
+    const { minColumns, maxColumns, minRows, maxRows } = this.options;
+    const range = (name: string, min: number, max: number) =>
+      min === max ? `${name} = ${min}` : `${name} ${min}-${max}`;
+    return `${range("columns", minColumns, maxColumns)}, ${range("rows", minRows, maxRows)}`;
+  }
+
+  /**
+   * Bounds of the columns or rows from the fixed value or the minimum and
+   * maximum options, each checked like checkOption.
+   */
+  private checkDimension(
+    name: "columns" | "rows",
+    options: PDF417Options,
+    range: [number, number],
+    lenient: boolean,
+  ): [number, number] {
+    const suffix = name === "columns" ? "Columns" : "Rows";
+    const minName = `min${suffix}` as const;
+    const maxName = `max${suffix}` as const;
+    const fixed = options[name];
+    if (fixed !== undefined) {
+      const value = this.checkOption(name, fixed, range, range[0], lenient);
+      for (const option of [minName, maxName]) {
+        if (options[option] === undefined) continue;
+        if (!lenient) {
+          throw new InvalidOptionError(
+            option,
+            options[option],
+            `can't be combined with ${name}`,
+          );
+        }
+        this.warnings.push(`${option}: ignored, ${name} is ${value}`);
+      }
+      return [value, value];
+    }
+    const min = this.checkOption(
+      minName,
+      options[minName] ?? range[0],
+      range,
+      range[0],
+      lenient,
+    );
+    const max = this.checkOption(
+      maxName,
+      options[maxName] ?? range[1],
+      range,
+      range[1],
+      lenient,
+    );
+    if (min <= max) return [min, max];
+    if (!lenient) {
+      throw new InvalidOptionError(
+        maxName,
+        options[maxName],
+        `must be at least ${minName} (${min})`,
+      );
+    }
+    this.warnings.push(
+      `${maxName}: ${max} is less than ${minName}, ${min} is used`,
+    );
+    return [min, min];
+  }
+
+  /** Narrowest quiet zone in modules; the spec asks for 2X on every side */
+  protected getMinQuietZone(): number {
+    return 2;
+  }
+
+  /**
+   * The integer option if it is in the range. Otherwise throws an
+   * InvalidOptionError, or when lenient warns and clamps it (fallback for
+   * values that aren't numbers).
+   */
+  protected checkOption(
+    option: string,
+    value: number,
+    [min, max]: [number, number],
+    fallback: number,
+    lenient: boolean,
+  ): number {
+    if (Number.isInteger(value) && value >= min && value <= max) return value;
+    const range =
+      max === Number.POSITIVE_INFINITY
+        ? `an integer of at least ${min}`
+        : `an integer from ${min} to ${max}`;
+    if (!lenient)
+      throw new InvalidOptionError(option, value, `must be ${range}`);
+    const used = Number.isFinite(value)
+      ? Math.min(Math.max(Math.round(value), min), max)
+      : fallback;
+    this.warnings.push(`${option}: ${value} is not ${range}, ${used} is used`);
+    return used;
+  }
+
+  private checkAspectRatio(value: number, lenient: boolean): number {
+    if (Number.isFinite(value) && value > 0) return value;
+    if (!lenient) {
+      throw new InvalidOptionError(
+        "aspectRatio",
+        value,
+        "must be greater than 0",
+      );
+    }
+    const used = PDF417.DEFAULT_ASPECT_RATIO;
+    this.warnings.push(
+      `aspectRatio: ${value} is not greater than 0, ${used} is used`,
+    );
+    return used;
+  }
+
+  /**
+   * The symbol generated last by this instance.
+   * @deprecated use the symbol returned by generate, which later calls leave as it is
+   */
   public getBarcodeArray(): BarcodeData {
     return this.barcode_array;
   }
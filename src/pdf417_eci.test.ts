@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  getCharacterSet,
+  getEciDesignator,
+  registerCharacterSet,
+} from "./pdf417_eci";
+
+const hex = (bytes: Uint8Array | null | undefined) =>
+  bytes
+    ? Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")
+    : bytes;
+
+describe("ECI designator", () => {
+  it("should use 927 for ECI 0-899", () => {
+    expect(getEciDesignator(26)).toEqual([927, 26]);
+    expect(getEciDesignator(899)).toEqual([927, 899]);
+  });
+
+  it("should use 926 for ECI 900-810899", () => {
+    expect(getEciDesignator(900)).toEqual([926, 0, 0]);
+    expect(getEciDesignator(123456)).toEqual([926, 136, 156]);
+    expect(getEciDesignator(810899)).toEqual([926, 899, 899]);
+  });
+
+  it("should use 925 for ECI 810900-811799", () => {
+    expect(getEciDesignator(810900)).toEqual([925, 0]);
+    expect(getEciDesignator(811799)).toEqual([925, 899]);
+  });
+
+  it("should reject ECI numbers out of range", () => {
+    expect(() => getEciDesignator(-1)).toThrow(RangeError);
+    expect(() => getEciDesignator(811800)).toThrow(RangeError);
+    expect(() => getEciDesignator(1.5)).toThrow(RangeError);
+  });
+});
+
+describe("Character set registry", () => {
+  it("should encode single-byte character sets", () => {
+    expect(hex(getCharacterSet(7)?.encode("Привет"))).toBe("bfe0d8d2d5e2");
+    expect(hex(getCharacterSet(11)?.encode("İş"))).toBe("ddfe");
+    expect(hex(getCharacterSet(17)?.encode("€Ÿ"))).toBe("a4be");
+    expect(hex(getCharacterSet(23)?.encode("€™"))).toBe("8099");
+  });
+
+  it("should encode Unicode character sets", () => {
+    expect(hex(getCharacterSet(25)?.encode("A日😀"))).toBe("004165e5d83dde00");
+    expect(hex(getCharacterSet(26)?.encode("A日"))).toBe("41e697a5");
+  });
+
+  it("should encode double-byte character sets", () => {
+    expect(hex(getCharacterSet(28)?.encode("中文"))).toBe("a4a4a4e5");
+    expect(hex(getCharacterSet(29)?.encode("中文€😀"))).toBe(
+      "d6d0cec4a2e39439fc36",
+    );
+    expect(hex(getCharacterSet(30)?.encode("한국어"))).toBe("c7d1b1b9beee");
+  });
+
+  it("should encode Shift_JIS from the bundled table", () => {
+    expect(hex(getCharacterSet(20)?.encode("東京 ﾃｽﾄ"))).toBe(
+      "938c8b9e20c3bdc4",
+    );
+    // Windows code points for JIS X 0208 characters
+    expect(hex(getCharacterSet(20)?.encode("〜～"))).toBe("81608160");
+    // NEC special characters and IBM extensions of Windows (CP932)
+    expect(hex(getCharacterSet(20)?.encode("①㈱№ⅰ纊"))).toBe(
+      "8740878a8782fa40fa5c",
+    );
+    // characters found twice take the first byte pair, as in Windows
+    expect(hex(getCharacterSet(20)?.encode("≒¬￢Ⅰ∵"))).toBe(
+      "81e081ca81ca875481e6",
+    );
+  });
+
+  it("should encode every Shift_JIS character so that it decodes back", () => {
+    const decoder = new TextDecoder("shift_jis");
+    // every lead byte but the user-defined area (0xF0-0xF9); the
+    // NEC-selected copies (0xED-0xEE) come back as the IBM extensions
+    for (let lead = 0x81; lead <= 0xfc; ++lead) {
+      if ((lead >= 0xa0 && lead <= 0xdf) || (lead >= 0xf0 && lead <= 0xf9)) {
+        continue;
+      }
+      for (let trail = 0x40; trail <= 0xfc; ++trail) {
+        const char = decoder.decode(new Uint8Array([lead, trail]));
+        if (trail === 0x7f || char === "\ufffd") continue;
+        const bytes = getCharacterSet(20)?.encode(char);
+        expect(bytes && decoder.decode(bytes)).toBe(char);
+      }
+    }
+  });
+
+  it("should return null for characters outside the character set", () => {
+    expect(getCharacterSet(7)?.encode("Ελληνικά")).toBeNull();
+    expect(getCharacterSet(27)?.encode("café")).toBeNull();
+  });
+
+  it("should register custom character sets", () => {
+    registerCharacterSet({
+      eci: 899,
+      name: "upper-ascii",
+      encode: (text) =>
+        Uint8Array.from(text.toUpperCase(), (c) => c.charCodeAt(0)),
+    });
+    expect(hex(getCharacterSet(899)?.encode("ab"))).toBe("4142");
+    expect(() =>
+      registerCharacterSet({ eci: 811800, name: "x", encode: () => null }),
+    ).toThrow(RangeError);
+  });
+});
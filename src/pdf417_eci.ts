@@ -0,0 +1,352 @@
+/**
+ * PDF417 Extended Channel Interpretation (ECI)
+ *
+ * Registry of the character sets that can be selected with an ECI designator,
+ * and the codewords that designate an ECI in the data stream.
+ */
+
+import {
+  ISO_8859_2,
+  ISO_8859_3,
+  ISO_8859_4,
+  ISO_8859_5,
+  ISO_8859_6,
+  ISO_8859_7,
+  ISO_8859_8,
+  ISO_8859_9,
+  ISO_8859_10,
+  ISO_8859_11,
+  ISO_8859_13,
+  ISO_8859_14,
+  ISO_8859_15,
+  ISO_8859_16,
+  WINDOWS_1250,
+  WINDOWS_1251,
+  WINDOWS_1252,
+  WINDOWS_1256,
+} from "./pdf417_charsets";
+import { SHIFT_JIS_LEADS, SHIFT_JIS_ROWS } from "./pdf417_shift_jis";
+
+export interface CharacterSet {
+  /** ECI assignment number */
+  eci: number;
+  /** Character set name */
+  name: string;
+  /** Convert text to bytes; null when the text contains a character the set can't represent */
+  encode: (text: string) => Uint8Array | null;
+}
+
+/** Highest ECI assignment number that can be designated */
+export const MAX_ECI = 811799;
+
+const registry = new Map<number, CharacterSet>();
+
+/** Add a character set to the registry, replacing any set with the same ECI number. */
+export function registerCharacterSet(charset: CharacterSet): void {
+  if (
+    !Number.isInteger(charset.eci) ||
+    charset.eci < 0 ||
+    charset.eci > MAX_ECI
+  ) {
+    throw new RangeError(`Invalid ECI assignment number: ${charset.eci}`);
+  }
+  registry.set(charset.eci, charset);
+}
+
+/** Look up the character set registered for an ECI assignment number. */
+export function getCharacterSet(eci: number): CharacterSet | undefined {
+  return registry.get(eci);
+}
+
+/**
+ * Codewords designating an ECI:
+ * 927 for ECI 0-899, 926 for ECI 900-810899 and 925 for ECI 810900-811799.
+ */
+export function getEciDesignator(eci: number): number[] {
+  if (!Number.isInteger(eci) || eci < 0 || eci > MAX_ECI) {
+    throw new RangeError(`Invalid ECI assignment number: ${eci}`);
+  }
+  if (eci < 900) {
+    return [927, eci];
+  }
+  if (eci < 810900) {
+    return [926, Math.floor(eci / 900) - 1, eci % 900];
+  }
+  return [925, eci - 810900];
+}
+
+/**
+ * Build an encoder from a lazily created code point to byte sequence map,
+ * with an optional function for code points computed rather than listed.
+ */
+function tableEncoder(
+  buildTable: () => Map<number, number[]>,
+  compute?: (cp: number) => number[] | undefined,
+): (text: string) => Uint8Array | null {
+  let table: Map<number, number[]> | undefined;
+  return (text) => {
+    if (!table) table = buildTable();
+    const bytes: number[] = [];
+    for (const ch of text) {
+      const cp = ch.codePointAt(0) ?? 0;
+      if (cp < 0x80) {
+        bytes.push(cp);
+        continue;
+      }
+      const seq = table.get(cp) ?? compute?.(cp);
+      if (!seq) return null;
+      bytes.push(...seq);
+    }
+    return Uint8Array.from(bytes);
+  };
+}
+
+/** Encoder for a single-byte character set whose upper half starts at `first`. */
+function singleByteEncoder(
+  upper: number[],
+  first: number,
+): (text: string) => Uint8Array | null {
+  return tableEncoder(() => {
+    const table = new Map<number, number[]>();
+    // bytes between 0x80 and the table start map to the same code point (C1 controls)
+    for (let b = 0x80; b < first; ++b) {
+      table.set(b, [b]);
+    }
+    upper.forEach((cp, i) => {
+      if (cp !== 0xfffd && !table.has(cp)) table.set(cp, [first + i]);
+    });
+    return table;
+  });
+}
+
+/**
+ * Encoder for a double-byte character set, built by decoding every
+ * lead/trail byte pair with the platform's TextDecoder.
+ */
+function doubleByteEncoder(
+  label: string,
+  leads: [number, number],
+  trails: [number, number][],
+  extend?: (table: Map<number, number[]>, decoder: TextDecoder) => void,
+  compute?: (cp: number) => number[] | undefined,
+): (text: string) => Uint8Array | null {
+  return tableEncoder(() => {
+    const decoder = new TextDecoder(label);
+    const table = new Map<number, number[]>();
+    const pair = new Uint8Array(2);
+    for (let lead = leads[0]; lead <= leads[1]; ++lead) {
+      for (const [from, to] of trails) {
+        for (let trail = from; trail <= to; ++trail) {
+          pair[0] = lead;
+          pair[1] = trail;
+          const decoded = decoder.decode(pair);
+          const cp = decoded.codePointAt(0) ?? 0xfffd;
+          // skip unmapped pairs and pairs that decode to more than one code point
+          if (cp === 0xfffd || String.fromCodePoint(cp) !== decoded) continue;
+          if (!table.has(cp)) table.set(cp, [lead, trail]);
+        }
+      }
+    }
+    extend?.(table, decoder);
+    return table;
+  }, compute);
+}
+
+/** GB18030 four-byte sequences for the rest of the BMP, found by decoding. */
+function addGb18030FourByte(
+  table: Map<number, number[]>,
+  decoder: TextDecoder,
+): void {
+  const seq = new Uint8Array(4);
+  // pointers 0-39419 (0x81308130-0x8431A439)
+  for (let pointer = 0; pointer < 39420; ++pointer) {
+    seq[0] = 0x81 + Math.floor(pointer / 12600);
+    seq[1] = 0x30 + (Math.floor(pointer / 1260) % 10);
+    seq[2] = 0x81 + (Math.floor(pointer / 10) % 126);
+    seq[3] = 0x30 + (pointer % 10);
+    const cp = decoder.decode(seq).codePointAt(0) ?? 0xfffd;
+    if (cp !== 0xfffd && !table.has(cp)) table.set(cp, Array.from(seq));
+  }
+}
+
+/** GB18030 four-byte sequences for the supplementary planes, from 0x90308130 on. */
+function gb18030Supplementary(cp: number): number[] | undefined {
+  if (cp < 0x10000) return undefined;
+  const pointer = cp - 0x10000;
+  return [
+    0x90 + Math.floor(pointer / 12600),
+    0x30 + (Math.floor(pointer / 1260) % 10),
+    0x81 + (Math.floor(pointer / 10) % 126),
+    0x30 + (pointer % 10),
+  ];
+}
+
+/**
+ * Code points that Windows and WHATWG decoders produce for Shift_JIS bytes
+ * where JIS X 0208 names a different character; they take precedence over
+ * the same code points in the IBM extensions (U+FFE2 is also 0xFA54)
+ */
+const SHIFT_JIS_ALIASES: [number, number][] = [
+  [0xff5e, 0x301c], // FULLWIDTH TILDE -> WAVE DASH (0x8160)
+  [0x2225, 0x2016], // PARALLEL TO -> DOUBLE VERTICAL LINE (0x8161)
+  [0xff0d, 0x2212], // FULLWIDTH HYPHEN-MINUS -> MINUS SIGN (0x817C)
+  [0xffe0, 0x00a2], // FULLWIDTH CENT SIGN (0x8191)
+  [0xffe1, 0x00a3], // FULLWIDTH POUND SIGN (0x8192)
+  [0xffe2, 0x00ac], // FULLWIDTH NOT SIGN (0x81CA)
+];
+
+const shiftJis = tableEncoder(() => {
+  const table = new Map<number, number[]>();
+  // half-width katakana
+  for (let b = 0xa1; b <= 0xdf; ++b) {
+    table.set(0xff61 + b - 0xa1, [b]);
+  }
+  let row = 0;
+  for (const [first, last] of SHIFT_JIS_LEADS) {
+    for (let lead = first; lead <= last; ++lead, ++row) {
+      const chars = SHIFT_JIS_ROWS[row];
+      for (let i = 0; i < chars.length; ++i) {
+        const cp = chars.charCodeAt(i);
+        // there is no trail byte 0x7F
+        const trail = i < 63 ? 0x40 + i : 0x41 + i;
+        if (cp !== 0xfffd && !table.has(cp)) table.set(cp, [lead, trail]);
+      }
+    }
+  }
+  for (const [alias, cp] of SHIFT_JIS_ALIASES) {
+    const seq = table.get(cp);
+    if (seq) table.set(alias, seq);
+  }
+  return table;
+});
+
+function latin1(text: string): Uint8Array | null {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; ++i) {
+    const c = text.charCodeAt(i);
+    if (c > 0xff) return null;
+    bytes[i] = c;
+  }
+  return bytes;
+}
+
+function ascii(text: string): Uint8Array | null {
+  const bytes = latin1(text);
+  return bytes?.every((b) => b < 0x80) ? bytes : null;
+}
+
+function utf8(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function utf16be(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length * 2);
+  for (let i = 0; i < text.length; ++i) {
+    const c = text.charCodeAt(i);
+    bytes[2 * i] = c >> 8;
+    bytes[2 * i + 1] = c & 0xff;
+  }
+  return bytes;
+}
+
+const BUILTIN_CHARACTER_SETS: CharacterSet[] = [
+  { eci: 1, name: "ISO-8859-1", encode: latin1 },
+  { eci: 3, name: "ISO-8859-1", encode: latin1 },
+  { eci: 4, name: "ISO-8859-2", encode: singleByteEncoder(ISO_8859_2, 0xa0) },
+  { eci: 5, name: "ISO-8859-3", encode: singleByteEncoder(ISO_8859_3, 0xa0) },
+  { eci: 6, name: "ISO-8859-4", encode: singleByteEncoder(ISO_8859_4, 0xa0) },
+  { eci: 7, name: "ISO-8859-5", encode: singleByteEncoder(ISO_8859_5, 0xa0) },
+  { eci: 8, name: "ISO-8859-6", encode: singleByteEncoder(ISO_8859_6, 0xa0) },
+  { eci: 9, name: "ISO-8859-7", encode: singleByteEncoder(ISO_8859_7, 0xa0) },
+  { eci: 10, name: "ISO-8859-8", encode: singleByteEncoder(ISO_8859_8, 0xa0) },
+  { eci: 11, name: "ISO-8859-9", encode: singleByteEncoder(ISO_8859_9, 0xa0) },
+  {
+    eci: 12,
+    name: "ISO-8859-10",
+    encode: singleByteEncoder(ISO_8859_10, 0xa0),
+  },
+  {
+    eci: 13,
+    name: "ISO-8859-11",
+    encode: singleByteEncoder(ISO_8859_11, 0xa0),
+  },
+  {
+    eci: 15,
+    name: "ISO-8859-13",
+    encode: singleByteEncoder(ISO_8859_13, 0xa0),
+  },
+  {
+    eci: 16,
+    name: "ISO-8859-14",
+    encode: singleByteEncoder(ISO_8859_14, 0xa0),
+  },
+  {
+    eci: 17,
+    name: "ISO-8859-15",
+    encode: singleByteEncoder(ISO_8859_15, 0xa0),
+  },
+  {
+    eci: 18,
+    name: "ISO-8859-16",
+    encode: singleByteEncoder(ISO_8859_16, 0xa0),
+  },
+  { eci: 20, name: "Shift_JIS", encode: shiftJis },
+  {
+    eci: 21,
+    name: "Windows-1250",
+    encode: singleByteEncoder(WINDOWS_1250, 0x80),
+  },
+  {
+    eci: 22,
+    name: "Windows-1251",
+    encode: singleByteEncoder(WINDOWS_1251, 0x80),
+  },
+  {
+    eci: 23,
+    name: "Windows-1252",
+    encode: singleByteEncoder(WINDOWS_1252, 0x80),
+  },
+  {
+    eci: 24,
+    name: "Windows-1256",
+    encode: singleByteEncoder(WINDOWS_1256, 0x80),
+  },
+  { eci: 25, name: "UTF-16BE", encode: utf16be },
+  { eci: 26, name: "UTF-8", encode: utf8 },
+  { eci: 27, name: "US-ASCII", encode: ascii },
+  {
+    eci: 28,
+    name: "Big5",
+    encode: doubleByteEncoder(
+      "big5",
+      [0xa1, 0xf9],
+      [
+        [0x40, 0x7e],
+        [0xa1, 0xfe],
+      ],
+    ),
+  },
+  {
+    eci: 29,
+    name: "GB18030",
+    encode: doubleByteEncoder(
+      "gb18030",
+      [0x81, 0xfe],
+      [
+        [0x40, 0x7e],
+        [0x80, 0xfe],
+      ],
+      addGb18030FourByte,
+      gb18030Supplementary,
+    ),
+  },
+  {
+    eci: 30,
+    name: "EUC-KR",
+    encode: doubleByteEncoder("euc-kr", [0xa1, 0xfe], [[0xa1, 0xfe]]),
+  },
+];
+
+for (const charset of BUILTIN_CHARACTER_SETS) {
+  registerCharacterSet(charset);
+}
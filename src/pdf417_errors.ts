@@ -0,0 +1,106 @@
+/**
+ * Errors thrown when a symbol can't be generated
+ *
+ * Every error is a PDF417Error with a machine-readable code; the subclasses
+ * carry the details of what went wrong. MacroPDF417Error is thrown when
+ * symbols read back can't be put together.
+ */
+
+export type PDF417ErrorCode =
+  | "EMPTY_INPUT"
+  | "CAPACITY_EXCEEDED"
+  | "INVALID_OPTION"
+  | "UNENCODABLE_CHARACTER"
+  | "DIMENSION_CONSTRAINT"
+  | "INVALID_MACRO";
+
+export class PDF417Error extends Error {
+  constructor(
+    readonly code: PDF417ErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "PDF417Error";
+  }
+}
+
+/** There is no data to encode */
+export class EmptyInputError extends PDF417Error {
+  constructor() {
+    super("EMPTY_INPUT", "PDF417 Error: no data to encode.");
+    this.name = "EmptyInputError";
+  }
+}
+
+/** The data needs more codewords than the symbol can hold */
+export class CapacityExceededError extends PDF417Error {
+  constructor(
+    /** Data codewords needed */
+    readonly required: number,
+    /** Data codewords available */
+    readonly available: number,
+  ) {
+    super(
+      "CAPACITY_EXCEEDED",
+      `PDF417 Error: the data needs ${required} codewords, but at most ${available} fit.`,
+    );
+    this.name = "CapacityExceededError";
+  }
+}
+
+/** An option has a value it can't take */
+export class InvalidOptionError extends PDF417Error {
+  constructor(
+    readonly option: string,
+    readonly value: unknown,
+    reason = "invalid value",
+  ) {
+    super("INVALID_OPTION", `PDF417 Error: ${option}: ${reason}.`);
+    this.name = "InvalidOptionError";
+  }
+}
+
+/** A character can't be converted with the character set or compaction mode in use */
+export class UnencodableCharacterError extends PDF417Error {
+  constructor(
+    /** Position of the character in the string, or -1 if unknown */
+    readonly index: number,
+    readonly character: string,
+    /** Character set or compaction mode that can't encode it */
+    readonly encoding: string,
+  ) {
+    super(
+      "UNENCODABLE_CHARACTER",
+      index >= 0
+        ? `PDF417 Error: "${character}" at ${index} can't be encoded in ${encoding}.`
+        : `PDF417 Error: the data can't be encoded in ${encoding}.`,
+    );
+    this.name = "UnencodableCharacterError";
+  }
+}
+
+/** The data doesn't fit the symbol dimensions asked for */
+export class DimensionConstraintError extends PDF417Error {
+  constructor(
+    /** Data codewords needed */
+    readonly required: number,
+    /** Data codewords the dimensions leave room for */
+    readonly available: number,
+    /** The dimension option that limits the size, such as "columns = 2" */
+    constraint: string,
+  ) {
+    super(
+      "DIMENSION_CONSTRAINT",
+      `PDF417 Error: the data needs ${required} codewords, but at most ${available} fit with ${constraint}.`,
+    );
+    this.name = "DimensionConstraintError";
+  }
+}
+
+/** Macro PDF417 symbols read back are malformed or don't belong together */
+export class MacroPDF417Error extends PDF417Error {
+  constructor(reason: string) {
+    super("INVALID_MACRO", `Macro PDF417 Error: ${reason}.`);
+    this.name = "MacroPDF417Error";
+  }
+}
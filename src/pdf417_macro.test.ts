@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { MacroPDF417Error } from "./pdf417_errors";
+import {
+  getMacroChecksum,
+  parseMacroPDF417,
+  reassembleMacroPDF417,
+} from "./pdf417_macro";
+
+/** Data codewords with the symbol length descriptor in front. */
+const symbol = (...codewords: number[]) => [codewords.length + 1, ...codewords];
+
+// "ABCD" in two symbols: "AB" in Text Compaction, "CD" in Byte Compaction
+const first = symbol(1, 928, 111, 100, 17, 42, 923, 1, 12, 923, 6, 165, 646);
+const last = symbol(
+  901,
+  67,
+  68,
+  928,
+  111,
+  101,
+  17,
+  42,
+  923,
+  1,
+  12,
+  923,
+  6,
+  165,
+  646,
+  922,
+);
+
+describe("Macro PDF417 checksum", () => {
+  it("should compute CRC-16 with the CCITT polynomial", () => {
+    expect(getMacroChecksum(new TextEncoder().encode("123456789"))).toBe(
+      0x29b1,
+    );
+    expect(getMacroChecksum(new TextEncoder().encode("ABCD"))).toBe(49146);
+  });
+});
+
+describe("Macro PDF417 control block", () => {
+  it("should parse the control block and the data", () => {
+    const segment = parseMacroPDF417(
+      symbol(
+        ...[28 * 30 + 1, 26 * 30 + 25, 0 * 30 + 29], // "1 ;"
+        ...[900, 900],
+        ...[928, 111, 103, 7, 923, 0, 5 * 30 + 29, 923, 2, 11, 923, 3],
+        ...[1 * 30 + 2, 923, 4, 27 * 30 + 0, 922],
+      ),
+    );
+    expect(segment).toEqual({
+      segmentIndex: 3,
+      fileId: [7],
+      fileName: "F",
+      timestamp: 1,
+      sender: "BC",
+      addressee: "a",
+      lastSegment: true,
+      data: new Uint8Array([0x31, 0x20, 0x3b]),
+    });
+  });
+
+  it("should decode Byte and Numeric Compaction", () => {
+    expect(
+      parseMacroPDF417(
+        symbol(924, 429, 5, 127, 134, 690, 902, 1, 223, 928, 111, 100, 1),
+      ).data,
+    ).toEqual(new Uint8Array([255, 254, 253, 252, 251, 250, 0x31, 0x32, 0x33]));
+  });
+
+  it("should throw without a control block", () => {
+    expect(() => parseMacroPDF417(symbol(1, 2, 3))).toThrow(
+      new MacroPDF417Error("no control block in the symbol"),
+    );
+    expect(() => parseMacroPDF417(symbol(1, 928, 111, 100, 923, 7))).toThrow(
+      expect.objectContaining({ code: "INVALID_MACRO" }),
+    );
+  });
+});
+
+describe("Macro PDF417 reassembly", () => {
+  it("should put the symbols together in any order", () => {
+    const file = reassembleMacroPDF417([last, first]);
+    expect(file.complete).toBe(true);
+    expect(file.missing).toEqual([]);
+    expect(file.segmentCount).toBe(2);
+    expect(file.checksum).toBe(49146);
+    expect(file.data).toEqual(new TextEncoder().encode("ABCD"));
+  });
+
+  it("should report the missing segments", () => {
+    expect(reassembleMacroPDF417([last])).toMatchObject({
+      complete: false,
+      missing: [0],
+      data: null,
+    });
+    expect(reassembleMacroPDF417([first, first])).toMatchObject({
+      complete: false,
+      missing: [1],
+    });
+  });
+
+  it("should only know the missing segments below the highest index without a count", () => {
+    const file = reassembleMacroPDF417([
+      symbol(1, 928, 111, 102, 17, 42),
+      symbol(1, 928, 111, 100, 17, 42),
+    ]);
+    expect(file.segmentCount).toBeUndefined();
+    expect(file.missing).toEqual([1]);
+    expect(file.complete).toBe(false);
+  });
+
+  it("should reject symbols of another file", () => {
+    const other = symbol(1, 928, 111, 101, 17, 43, 922);
+    expect(() => reassembleMacroPDF417([first, other])).toThrow(
+      "different files",
+    );
+  });
+
+  it("should reject a wrong checksum", () => {
+    const corrupted = [...last];
+    corrupted[2] = 69; // "CE"
+    expect(() => reassembleMacroPDF417([first, corrupted])).toThrow(
+      new MacroPDF417Error("checksum doesn't match"),
+    );
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * Macro PDF417 (structured append)
+ *
+ * Control block codewords and field designators shared by the encoder and
+ * the reassembly of a file split across several symbols.
+ */
+
+import { MacroPDF417Error } from "./pdf417_errors";
+
+/** Begins the Macro PDF417 control block */
+export const MACRO_CONTROL_BLOCK = 928;
+/** Begins an optional field of the control block */
+export const MACRO_OPTIONAL_FIELD = 923;
+/** Marks the last symbol of the file */
+export const MACRO_TERMINATOR = 922;
+
+/** Highest segment index (the segment count is at most one more) */
+export const MAX_MACRO_SEGMENT_INDEX = 99998;
+
+/** Field designators of the optional fields */
+export const MACRO_FIELDS = {
+  fileName: 0,
+  segmentCount: 1,
+  timestamp: 2,
+  sender: 3,
+  addressee: 4,
+  fileSize: 5,
+  checksum: 6,
+} as const;
+
+/**
+ * Checksum of the whole file: CRC-16 with the CCITT polynomial
+ * x^16 + x^12 + x^5 + 1 (0x1021), initial value 0xFFFF, most significant bit first.
+ */
+export function getMacroChecksum(data: Uint8Array): number {
+  let crc = 0xffff;
+  for (let i = 0; i < data.length; ++i) {
+    crc ^= data[i] << 8;
+    for (let bit = 0; bit < 8; ++bit) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+/** Control block and data of one symbol of a Macro PDF417 set */
+export interface MacroPDF417Segment {
+  /** Position of the symbol in the set, from 0 */
+  segmentIndex: number;
+  /** File ID codewords */
+  fileId: number[];
+  fileName?: string;
+  /** Number of symbols in the set */
+  segmentCount?: number;
+  /** Seconds since 1970-01-01 UTC */
+  timestamp?: number;
+  sender?: string;
+  addressee?: string;
+  /** Size of the whole file in bytes */
+  fileSize?: number;
+  /** CRC-16 of the whole file */
+  checksum?: number;
+  /** The symbol carries the terminator */
+  lastSegment: boolean;
+  /** Bytes encoded in the symbol, ECI designators left out */
+  data: Uint8Array;
+}
+
+/** A Macro PDF417 file put back together from the symbols read so far */
+export interface MacroPDF417File {
+  fileId: number[];
+  fileName?: string;
+  /** Number of symbols, when a symbol gives the count or carries the terminator */
+  segmentCount?: number;
+  timestamp?: number;
+  sender?: string;
+  addressee?: string;
+  fileSize?: number;
+  checksum?: number;
+  /** Indices still to be read; while the count is unknown, only those below the highest index read */
+  missing: number[];
+  /** Every symbol has been read */
+  complete: boolean;
+  /** The file, once complete */
+  data: Uint8Array | null;
+}
+
+// characters of the Text Compaction sub-modes (alpha, lower, mixed, punctuation)
+// up to the first latch or shift value; 26 is a space in all but punctuation
+const TEXT_CHARACTERS = [
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZ",
+  "abcdefghijklmnopqrstuvwxyz",
+  "0123456789&\r\t,:#-.$/+%*=^",
+  ";<>@[\\]_`~!\r\t,:\n-.$/\"|*()?{}'",
+];
+
+/**
+ * Parse the data codewords of a Macro PDF417 symbol, starting with the
+ * symbol length descriptor (codewords past its length, such as error
+ * correction, are ignored). Throws a MacroPDF417Error if the codewords are
+ * malformed or have no control block.
+ */
+export function parseMacroPDF417(codewords: number[]): MacroPDF417Segment {
+  const end = Math.min(codewords[0] ?? 0, codewords.length);
+  const { data, next } = decodeData(codewords, 1, end);
+  if (codewords[next] !== MACRO_CONTROL_BLOCK || next + 3 > end) {
+    throw new MacroPDF417Error("no control block in the symbol");
+  }
+  const segment: MacroPDF417Segment = {
+    segmentIndex: Number(decodeNumeric(codewords.slice(next + 1, next + 3))),
+    fileId: [],
+    lastSegment: false,
+    data,
+  };
+  let k = next + 3;
+  while (k < end && codewords[k] < 900) segment.fileId.push(codewords[k++]);
+  while (k < end) {
+    if (codewords[k] === MACRO_TERMINATOR && k === end - 1) {
+      segment.lastSegment = true;
+      break;
+    }
+    if (codewords[k] !== MACRO_OPTIONAL_FIELD || k + 1 >= end) {
+      throw new MacroPDF417Error("invalid control block");
+    }
+    const designator = codewords[k + 1];
+    k += 2;
+    const start = k;
+    while (k < end && codewords[k] < 900) ++k;
+    const field = codewords.slice(start, k);
+    switch (designator) {
+      case MACRO_FIELDS.fileName:
+        segment.fileName = decodeText(field);
+        break;
+      case MACRO_FIELDS.segmentCount:
+        segment.segmentCount = Number(decodeNumeric(field));
+        break;
+      case MACRO_FIELDS.timestamp:
+        segment.timestamp = Number(decodeNumeric(field));
+        break;
+      case MACRO_FIELDS.sender:
+        segment.sender = decodeText(field);
+        break;
+      case MACRO_FIELDS.addressee:
+        segment.addressee = decodeText(field);
+        break;
+      case MACRO_FIELDS.fileSize:
+        segment.fileSize = Number(decodeNumeric(field));
+        break;
+      case MACRO_FIELDS.checksum:
+        segment.checksum = Number(decodeNumeric(field));
+        break;
+      default:
+        throw new MacroPDF417Error(`unknown optional field ${designator}`);
+    }
+  }
+  return segment;
+}
+
+/**
+ * Put a Macro PDF417 file back together from the data codewords of its
+ * symbols (see parseMacroPDF417), given in any order. Symbols read twice
+ * are accepted; symbols of another file, conflicting control blocks and a
+ * file that doesn't match its size or checksum throw a MacroPDF417Error.
+ */
+export function reassembleMacroPDF417(symbols: number[][]): MacroPDF417File {
+  const segments = new Map<number, MacroPDF417Segment>();
+  let first: MacroPDF417Segment | undefined;
+  let count: number | undefined;
+  for (const codewords of symbols) {
+    const segment = parseMacroPDF417(codewords);
+    first ??= segment;
+    if (segment.fileId.join() !== first.fileId.join()) {
+      throw new MacroPDF417Error("symbols of different files");
+    }
+    for (const n of [
+      segment.segmentCount,
+      segment.lastSegment ? segment.segmentIndex + 1 : undefined,
+    ]) {
+      if (n === undefined) continue;
+      if (count !== undefined && count !== n) {
+        throw new MacroPDF417Error("segment counts don't match");
+      }
+      count = n;
+    }
+    const read = segments.get(segment.segmentIndex);
+    if (read && read.data.join() !== segment.data.join()) {
+      throw new MacroPDF417Error(
+        `two different symbols with index ${segment.segmentIndex}`,
+      );
+    }
+    segments.set(segment.segmentIndex, segment);
+  }
+  if (!first) {
+    throw new MacroPDF417Error("no symbols");
+  }
+
+  const indices = [...segments.keys()];
+  if (count !== undefined && indices.some((index) => index >= count)) {
+    throw new MacroPDF417Error("segment index beyond the count");
+  }
+  const missing: number[] = [];
+  const known = count ?? Math.max(...indices) + 1;
+  for (let index = 0; index < known; ++index) {
+    if (!segments.has(index)) missing.push(index);
+  }
+  const file: MacroPDF417File = {
+    fileId: first.fileId,
+    segmentCount: count,
+    missing,
+    complete: count !== undefined && missing.length === 0,
+    data: null,
+  };
+  // optional fields may be in any of the symbols
+  for (const segment of segments.values()) {
+    file.fileName ??= segment.fileName;
+    file.timestamp ??= segment.timestamp;
+    file.sender ??= segment.sender;
+    file.addressee ??= segment.addressee;
+    file.fileSize ??= segment.fileSize;
+    file.checksum ??= segment.checksum;
+  }
+  if (!file.complete) return file;
+
+  const parts = indices.sort((a, b) => a - b).map((i) => segments.get(i)?.data);
+  const data = new Uint8Array(
+    parts.reduce((size, part) => size + (part?.length ?? 0), 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    if (!part) continue;
+    data.set(part, offset);
+    offset += part.length;
+  }
+  if (file.fileSize !== undefined && file.fileSize !== data.length) {
+    throw new MacroPDF417Error("file size doesn't match");
+  }
+  if (file.checksum !== undefined && file.checksum !== getMacroChecksum(data)) {
+    throw new MacroPDF417Error("checksum doesn't match");
+  }
+  file.data = data;
+  return file;
+}
+
+/**
+ * Decode the data codewords from start up to the control block (or end)
+ * into bytes; returns the bytes and the position of the control block.
+ */
+function decodeData(
+  codewords: number[],
+  start: number,
+  end: number,
+): { data: Uint8Array; next: number } {
+  const bytes: number[] = [];
+  let mode = 900; // Text Compaction is the default mode
+  let submode = 0;
+  let shift = -1; // sub-mode of the next value only
+  let k = start;
+  const text = (value: number) => {
+    const current = shift >= 0 ? shift : submode;
+    shift = -1;
+    const ch =
+      value === 26 && current < 3 ? " " : TEXT_CHARACTERS[current][value];
+    if (ch !== undefined) {
+      bytes.push(ch.charCodeAt(0));
+    } else if (current === 3 || (current === 2 && value === 28)) {
+      submode = 0; // al
+    } else if (value === 29) {
+      shift = 3; // ps
+    } else if (current === 2 && value === 25) {
+      submode = 3; // pl
+    } else if (value === 27) {
+      if (current === 1)
+        shift = 0; // as
+      else submode = 1; // ll
+    } else if (value === 28) {
+      submode = 2; // ml
+    }
+  };
+  while (k < end && codewords[k] !== MACRO_CONTROL_BLOCK) {
+    const cw = codewords[k];
+    if (cw < 900) {
+      if (mode === 900) {
+        text(Math.floor(cw / 30));
+        text(cw % 30);
+        ++k;
+      } else if (mode === 902) {
+        let n = k;
+        while (n < end && n - k < 15 && codewords[n] < 900) ++n;
+        const digits = decodeNumeric(codewords.slice(k, n));
+        for (const digit of digits) bytes.push(digit.charCodeAt(0));
+        k = n;
+      } else {
+        // 924, or 901 with more data after the group: 5 codewords for 6 bytes
+        let n = k;
+        while (n < end && n - k < 6 && codewords[n] < 900) ++n;
+        if (n - k >= 5 && (mode === 924 || n - k === 6)) {
+          let t = 0n;
+          for (let j = k; j < k + 5; ++j) t = t * 900n + BigInt(codewords[j]);
+          for (let j = 5; j >= 0; --j)
+            bytes.push(Number((t >> BigInt(8 * j)) & 0xffn));
+          k += 5;
+        } else {
+          for (; k < n; ++k) bytes.push(codewords[k] & 0xff);
+        }
+      }
+      continue;
+    }
+    switch (cw) {
+      case 900:
+        submode = 0;
+        shift = -1;
+        mode = cw;
+        break;
+      case 901:
+      case 902:
+      case 924:
+        mode = cw;
+        break;
+      case 913:
+        // Byte Compaction shift of a single byte
+        bytes.push(codewords[++k] & 0xff);
+        break;
+      case 925:
+      case 927:
+        ++k; // ECI designator with one codeword
+        break;
+      case 926:
+        k += 2; // ECI designator with two codewords
+        break;
+      default:
+        throw new MacroPDF417Error(`unexpected codeword ${cw}`);
+    }
+    ++k;
+  }
+  return { data: new Uint8Array(bytes), next: k };
+}
+
+/** Numeric Compaction codewords (a single group) to their digits */
+function decodeNumeric(codewords: number[]): string {
+  let t = 0n;
+  for (const cw of codewords) t = t * 900n + BigInt(cw);
+  // the digits follow a leading "1"
+  return t.toString().slice(1);
+}
+
+/** Text Compaction codewords of an optional field to a string */
+function decodeText(codewords: number[]): string {
+  const { data } = decodeData(codewords, 0, codewords.length);
+  return String.fromCharCode(...data);
+}
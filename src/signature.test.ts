@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { PDF417 } from "./pdf417";
+import { CLUSTERS } from "./pdf417_clusters";
+import {
+  getSignedSegments,
+  parseSignedPayload,
+  signPayload,
+  verifySignedPayload,
+} from "./signature";
+
+const ecdsa = { name: "ECDSA", namedCurve: "P-256" };
+
+// Node 18 has no global WebCrypto
+const subtle =
+  globalThis.crypto?.subtle ?? (await import("node:crypto")).webcrypto.subtle;
+
+function generateKeyPair(algorithm: AlgorithmIdentifier | EcKeyGenParams) {
+  return subtle.generateKey(algorithm, false, [
+    "sign",
+    "verify",
+  ]) as Promise<CryptoKeyPair>;
+}
+
+// Ed25519 isn't in the WebCrypto of every runtime
+const hasEd25519 = await generateKeyPair({ name: "Ed25519" }).then(
+  () => true,
+  () => false,
+);
+
+describe("Signed payloads", () => {
+  it("should append the signature and verify it", async () => {
+    const { privateKey, publicKey } = await generateKeyPair(ecdsa);
+    const signed = await signPayload("PERMIT 2026-0042", privateKey);
+    expect(signed).toHaveLength(16 + 64 + 4);
+    expect(Array.from(signed.slice(-4))).toEqual([0x01, 0x53, 0x49, 0x47]);
+    const payload = await verifySignedPayload(signed, publicKey);
+    expect(payload && new TextDecoder().decode(payload)).toBe(
+      "PERMIT 2026-0042",
+    );
+    // as a scanner returns the bytes
+    const scanned = String.fromCharCode(...signed);
+    expect(await verifySignedPayload(scanned, publicKey)).toEqual(payload);
+  });
+
+  it.runIf(hasEd25519)("should sign with Ed25519", async () => {
+    const { privateKey, publicKey } = await generateKeyPair({
+      name: "Ed25519",
+    });
+    const signed = await signPayload(new Uint8Array([1, 2, 3]), privateKey);
+    expect(parseSignedPayload(signed)?.algorithm).toBe("Ed25519");
+    expect(await verifySignedPayload(signed, publicKey)).toEqual(
+      new Uint8Array([1, 2, 3]),
+    );
+    const ecdsaKeys = await generateKeyPair(ecdsa);
+    expect(await verifySignedPayload(signed, ecdsaKeys.publicKey)).toBeNull();
+  });
+
+  it("should reject forged or unsigned content", async () => {
+    const { privateKey, publicKey } = await generateKeyPair(ecdsa);
+    const other = await generateKeyPair(ecdsa);
+    const signed = await signPayload("PERMIT 2026-0042", privateKey);
+    const forged = signed.slice();
+    forged[13] ^= 1;
+    expect(await verifySignedPayload(forged, publicKey)).toBeNull();
+    expect(await verifySignedPayload(signed, other.publicKey)).toBeNull();
+    expect(await verifySignedPayload("PERMIT 2026-0042", publicKey)).toBeNull();
+  });
+
+  it("should be encoded in a single Byte Compaction segment", async () => {
+    const { privateKey } = await generateKeyPair(ecdsa);
+    const signed = await signPayload("PERMIT 2026-0042", privateKey);
+    const result = new PDF417({ rowHeight: 1 }).generateSegments(
+      getSignedSegments(signed),
+    );
+    const codewords: number[] = [];
+    result.bcode.slice(2, -2).forEach((row, r) => {
+      const bits = row.join("");
+      // after the quiet zone, the start pattern and the left row indicator
+      for (let start = 36; start < bits.length - 37; start += 17) {
+        const pattern = Number.parseInt(bits.slice(start, start + 17), 2);
+        codewords.push(CLUSTERS[(r % 3) * 3].indexOf(pattern));
+      }
+    });
+    // 16 + 68 bytes: 924, then 14 groups of 6 bytes in 5 codewords each
+    expect(codewords[1]).toBe(924);
+    const bytes: number[] = [];
+    for (let i = 2; i < 2 + 14 * 5; i += 5) {
+      let t = 0n;
+      for (const cw of codewords.slice(i, i + 5)) t = t * 900n + BigInt(cw);
+      for (let j = 5; j >= 0; --j)
+        bytes.push(Number((t >> BigInt(8 * j)) & 0xffn));
+    }
+    expect(new Uint8Array(bytes)).toEqual(signed);
+    expect(parseSignedPayload(new Uint8Array(bytes))).toMatchObject({
+      payload: new TextEncoder().encode("PERMIT 2026-0042"),
+      signature: signed.slice(16, 80),
+      algorithm: "ECDSA-P256",
+    });
+    expect(bytes.slice(-4)).toEqual([0x01, 0x53, 0x49, 0x47]);
+    // padding up to the error correction
+    expect(codewords.slice(72, codewords[0])).toEqual(
+      Array(codewords[0] - 72).fill(900),
+    );
+    expect(() => getSignedSegments(new Uint8Array([1, 2, 3]))).toThrow(
+      "Signature Error: the data isn't a signed payload.",
+    );
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Signed payloads
+ *
+ * The data is followed by a detached signature over it, so that a scanned
+ * symbol can be checked against the public key of the issuer. Format (all
+ * lengths in bytes):
+ *
+ *   payload | signature (64) | algorithm (1) | "SIG" (3)
+ *
+ * - payload: the data, UTF-8 if it was a string
+ * - signature: ECDSA P-256 with SHA-256 as r and s of 32 bytes each
+ *   (IEEE P1363), or Ed25519, over the payload
+ * - algorithm: 0x01 = ECDSA P-256, 0x02 = Ed25519
+ *
+ * getSignedSegments puts the whole signed payload in a single Byte
+ * Compaction segment for `PDF417.generateSegments`, so that the data
+ * codewords after the symbol length descriptor are:
+ *
+ *   924 (or 901) | 5 codewords per 6 bytes | 1 codeword per byte left over
+ *
+ * 924 when the length is a multiple of 6, 901 otherwise; every group of 6
+ * bytes is a base-256 number written as 5 base-900 codewords, and the last
+ * length % 6 bytes (901 only) are a codeword each. Padding (900) follows.
+ * Signing and verifying use WebCrypto only: the global crypto.subtle, or
+ * that of node:crypto on Node 18, which has no global one.
+ */
+
+import type { CompactionSegment } from "./pdf417";
+
+/** Signature algorithm of a signed payload */
+export type SignatureAlgorithm = "ECDSA-P256" | "Ed25519";
+
+/** The parts of a signed payload */
+export interface SignedPayload {
+  payload: Uint8Array;
+  signature: Uint8Array;
+  algorithm: SignatureAlgorithm;
+}
+
+const SIGNATURE_LENGTH = 64;
+const MAGIC = [0x53, 0x49, 0x47]; // "SIG"
+const TRAILER_LENGTH = SIGNATURE_LENGTH + 1 + MAGIC.length;
+const ALGORITHM_IDS: Record<SignatureAlgorithm, number> = {
+  "ECDSA-P256": 0x01,
+  Ed25519: 0x02,
+};
+const ALGORITHM_PARAMS: Record<SignatureAlgorithm, AlgorithmIdentifier> = {
+  "ECDSA-P256": { name: "ECDSA", hash: "SHA-256" } as EcdsaParams,
+  Ed25519: { name: "Ed25519" },
+};
+
+/**
+ * Append the signature of the data made with the private key (ECDSA P-256
+ * or Ed25519). Throws if the key is of another algorithm.
+ */
+export async function signPayload(
+  data: string | Uint8Array,
+  privateKey: CryptoKey,
+): Promise<Uint8Array> {
+  const payload =
+    typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const algorithm = getKeyAlgorithm(privateKey);
+  if (!algorithm) {
+    throw new Error("Signature Error: the key must be ECDSA P-256 or Ed25519.");
+  }
+  const subtle = await getSubtleCrypto();
+  const signature = new Uint8Array(
+    await subtle.sign(ALGORITHM_PARAMS[algorithm], privateKey, payload),
+  );
+  const signed = new Uint8Array(payload.length + TRAILER_LENGTH);
+  signed.set(payload);
+  signed.set(signature, payload.length);
+  signed.set(
+    [ALGORITHM_IDS[algorithm], ...MAGIC],
+    payload.length + SIGNATURE_LENGTH,
+  );
+  return signed;
+}
+
+/**
+ * The signed payload as a single Byte Compaction segment, to encode with
+ * `PDF417.generateSegments`. Throws if the bytes aren't a signed payload.
+ */
+export function getSignedSegments(signed: Uint8Array): CompactionSegment[] {
+  if (!parseSignedPayload(signed)) {
+    throw new Error("Signature Error: the data isn't a signed payload.");
+  }
+  return [{ data: signed, mode: "byte" }];
+}
+
+/**
+ * Split a signed payload into its parts, or return null if it isn't one.
+ * A string, as scanners often return the decoded bytes, must hold one byte
+ * per character.
+ */
+export function parseSignedPayload(
+  scanned: Uint8Array | string,
+): SignedPayload | null {
+  const bytes = toBytes(scanned);
+  if (!bytes || bytes.length < TRAILER_LENGTH) return null;
+  const end = bytes.length - MAGIC.length;
+  if (MAGIC.some((value, i) => bytes[end + i] !== value)) return null;
+  const algorithm = (Object.keys(ALGORITHM_IDS) as SignatureAlgorithm[]).find(
+    (name) => ALGORITHM_IDS[name] === bytes[end - 1],
+  );
+  if (!algorithm) return null;
+  const payloadLength = bytes.length - TRAILER_LENGTH;
+  return {
+    payload: bytes.slice(0, payloadLength),
+    signature: bytes.slice(payloadLength, payloadLength + SIGNATURE_LENGTH),
+    algorithm,
+  };
+}
+
+/**
+ * Check the signature of scanned content with the public key of the issuer.
+ * Returns the payload if the signature is valid, or null if it isn't, if
+ * the content isn't signed or if it was signed with another algorithm.
+ */
+export async function verifySignedPayload(
+  scanned: Uint8Array | string,
+  publicKey: CryptoKey,
+): Promise<Uint8Array | null> {
+  const signed = parseSignedPayload(scanned);
+  if (!signed || signed.algorithm !== getKeyAlgorithm(publicKey)) {
+    return null;
+  }
+  const subtle = await getSubtleCrypto();
+  const valid = await subtle.verify(
+    ALGORITHM_PARAMS[signed.algorithm],
+    publicKey,
+    signed.signature,
+    signed.payload,
+  );
+  return valid ? signed.payload : null;
+}
+
+/** WebCrypto of the runtime, from node:crypto when there is no global one */
+async function getSubtleCrypto(): Promise<SubtleCrypto> {
+  const subtle = globalThis.crypto?.subtle;
+  if (subtle) return subtle;
+  // not a literal, so that bundlers for browsers leave the module out
+  const specifier = "node:crypto";
+  const { webcrypto } = (await import(specifier)) as { webcrypto: Crypto };
+  return webcrypto.subtle;
+}
+
+function getKeyAlgorithm(key: CryptoKey): SignatureAlgorithm | null {
+  const { name, namedCurve } = key.algorithm as EcKeyAlgorithm;
+  if (name === "ECDSA" && namedCurve === "P-256") return "ECDSA-P256";
+  if (name === "Ed25519") return "Ed25519";
+  return null;
+}
+
+function toBytes(scanned: Uint8Array | string): Uint8Array | null {
+  if (typeof scanned !== "string") return scanned;
+  const bytes = new Uint8Array(scanned.length);
+  for (let i = 0; i < scanned.length; ++i) {
+    const value = scanned.charCodeAt(i);
+    if (value > 0xff) return null;
+    bytes[i] = value;
+  }
+  return bytes;
+}